@@ -0,0 +1,75 @@
+import keyedList from '../src/index';
+import * as baseline from './baseline';
+
+interface Row {
+  id: string;
+  title: string;
+  votes: number;
+}
+
+// The baseline copies the whole list on every step of these, so they are only run for the smaller lists
+const QUADRATIC_LIMIT = 20000;
+
+const sizes = process.argv.slice(2).map(Number).filter(size => size > 0);
+
+const measure = (iterations: number, run: (i: number) => void): number => {
+  const start = process.hrtime();
+  for (let i = 0; i < iterations; i++) {
+    run(i);
+  }
+  const [seconds, nanoseconds] = process.hrtime(start);
+  return (seconds * 1e3 + nanoseconds / 1e6) / iterations;
+};
+
+const benchSize = (size: number) => {
+  const rows: Row[] = Array.from({ length: size }, (_, i) => ({ id: `row-${ i }`, title: `Row ${ i }`, votes: (i * 7919) % 1000 }));
+  const list = keyedList.fromArray(rows);
+  // The baseline list is built without its quadratic `fromArray`, so every size can be compared
+  const baselineList: baseline.IdKeyedList<Row> = { keys: rows.map(x => x.id), elements: {} };
+  rows.forEach(x => {
+    baselineList.elements[x.id] = { ...x };
+  });
+
+  const bench = (name: string, iterations: number, run: (i: number) => void, runBaseline: (i: number) => void, quadratic = false) => {
+    const current = measure(iterations, run);
+    const skipped = quadratic && size > QUADRATIC_LIMIT;
+    const previous = skipped ? undefined : measure(iterations, runBaseline);
+    console.log([
+      name.padEnd(16),
+      iterations.toString().padStart(6),
+      current.toFixed(3).padStart(14),
+      (previous === undefined ? 'skipped' : previous.toFixed(3)).padStart(14),
+      (previous === undefined ? '' : `${ (previous / current).toFixed(1) }x`).padStart(10)
+    ].join(' '));
+  };
+
+  console.log(`\nkeyed-list benchmarks with ${ size } elements`);
+  console.log(`${ 'operation'.padEnd(16) } ${ 'ops'.padStart(6) } ${ 'ms/op'.padStart(14) } ${ 'baseline ms/op'.padStart(14) } ${ 'speedup'.padStart(10) }`);
+  bench('fromArray', 3, () => keyedList.fromArray(rows), () => baseline.fromArray(rows), true);
+  bench('toArray', 5, () => keyedList.toArray(list), () => baseline.toArray(baselineList));
+  bench('getById', 100000, i => keyedList.getById(list, `row-${ i % size }`), i => baseline.getById(baselineList, `row-${ i % size }`));
+  bench('append', 100, i => keyedList.append(list, { id: `new-${ i }`, title: 'New', votes: 0 })
+    , i => baseline.append(baselineList, { id: `new-${ i }`, title: 'New', votes: 0 }));
+  bench('insert', 100, i => keyedList.insert(list, { id: `new-${ i }`, title: 'New', votes: 0 })
+    , i => baseline.insert(baselineList, { id: `new-${ i }`, title: 'New', votes: 0 }));
+  bench('update', 100, i => keyedList.update(list, { id: `row-${ i % size }`, votes: i })
+    , i => baseline.update(baselineList, { id: `row-${ i % size }`, votes: i }));
+  bench('removeById', 3, i => keyedList.removeById(list, `row-${ i % size }`)
+    , i => baseline.removeById(baselineList, `row-${ i % size }`), true);
+  // The baseline has no batches, so the same updates are applied one by one
+  bench('500 updates', 2, i => keyedList.withMutations(list, draft => {
+    for (let j = 0; j < 500; j++) {
+      draft.update({ id: `row-${ (i * 500 + j) % size }`, votes: j });
+    }
+  }), i => {
+    let next = baselineList;
+    for (let j = 0; j < 500; j++) {
+      next = baseline.update(next, { id: `row-${ (i * 500 + j) % size }`, votes: j });
+    }
+  });
+  bench('filter', 10, () => keyedList.filter(list, x => x.votes > 500), () => baseline.filter(baselineList, x => x.votes > 500));
+  bench('sort', 5, () => keyedList.sort(list, (left, right) => left.votes - right.votes)
+    , () => baseline.sort(baselineList, (left, right) => left.votes - right.votes));
+};
+
+(sizes.length > 0 ? sizes : [ 5000, 50000 ]).forEach(benchSize);
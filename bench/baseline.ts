@@ -0,0 +1,100 @@
+// The list functions of the first release, before the persistent backend.
+// They are kept as they were, so the benchmarks can compare against them.
+
+export type KeyValueType = string;
+
+export type ElementWithKey<K> = Record<K & KeyValueType, KeyValueType>;
+export type ElementWithId = ElementWithKey<'id'>;
+export type ElementsWithId<T extends ElementWithId> = { [id: string]: T; };
+
+export interface IdKeyedList<T extends ElementWithId> {
+    keys: Array<KeyValueType>;
+    elements: ElementsWithId<T>;
+}
+
+export const fromArray = <T extends ElementWithId>(array: T[] = []): IdKeyedList<T> => {
+    const keys = array.map(x => x.id);
+    return {
+        keys: keys,
+        elements: array.reduce((prev, curr) =>
+            ({ ...prev, [curr.id]: { ...curr } })
+            , {})
+    };
+};
+
+export const toArray = <T extends ElementWithId>(list: IdKeyedList<T>): T[] =>
+    list.keys.map(k => ({ ...list.elements[k] }));
+
+export const getById = <T extends ElementWithId>(list: IdKeyedList<T>, id: string): T | undefined => list.elements[id];
+
+export const getByIds = <T extends ElementWithId>(list: IdKeyedList<T>, ids: Array<string>): T[] => {
+    const newElements: T[] = [];
+    ids.map(id => {
+        const x = list.elements[id];
+        if (x) {
+            newElements.push({ ...x });
+        }
+    });
+    return newElements;
+};
+
+export const update = <T extends ElementWithId>(list: IdKeyedList<T>, elemProps: Partial<T> & ElementWithId | T): IdKeyedList<T> => ({
+    ...list,
+    elements: {
+        ...list.elements,
+        [elemProps.id]: Object.assign({}, list.elements[elemProps.id], elemProps)
+    }
+});
+
+export const append = <T extends ElementWithId>(list: IdKeyedList<T>,  x: T): IdKeyedList<T> => {
+    return {
+        keys: [ ...list.keys, x.id ],
+        elements: {
+            ...list.elements,
+            [x.id]: x
+        }
+    };
+}
+
+export const insert = <T extends ElementWithId>(list: IdKeyedList<T>, x: T): IdKeyedList<T> => {
+    return {
+        keys: [ x.id, ...list.keys ],
+        elements: {
+            ...list.elements,
+            [x.id]: x
+        }
+    };
+}
+
+export const removeById = <T extends ElementWithId>(list: IdKeyedList<T>, id: string): IdKeyedList<T>  => {
+    const newKeyes = list.keys.filter(xid => xid !== id)
+    return {
+        keys: newKeyes,
+        elements: Object
+          .values(list.elements)
+          .reduce((prev, curr) => {
+            return (curr.id === id)
+              ? ({ ...prev })
+              : ({ ...prev, [curr.id]: curr });
+          }, {})
+    };
+}
+
+export const filter = <T extends ElementWithId>(list: IdKeyedList<T>, filterFunction: (x: T) => boolean) => {
+    const keys = list.keys.filter(id => {
+        const elem = list.elements[id];
+        return filterFunction(elem);
+    });
+    return getByIds(list, keys);
+};
+
+export const sort = <T extends ElementWithId>(list: IdKeyedList<T>, compareWith: (lval: T, rval: T) => number): IdKeyedList<T> => {
+    const sortedElems = toArray(list).sort(compareWith);
+    return {
+        keys: sortedElems.map(x => x.id),
+        elements: sortedElems.reduce((prev, elem) => {
+            prev[elem.id] = elem;
+            return prev;
+        }, {} as ElementsWithId<T>)
+    };
+}
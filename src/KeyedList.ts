@@ -1,17 +1,50 @@
-export type KeyValueType = string;
+import { KeyExtractor, KeyName, KeySelector, KeyValueType, SelectedKey, encodeKey, keyExtractor } from './keys';
+import { MissingKeyError } from './errors';
+import { insertAt } from './positional';
+import { SecondaryIndexes, refreshIndexes } from './indexes';
+import { Comparator, sortKeys } from './sorted';
+import { DeepReadonly, freezeInDevMode } from './freeze';
+import { backendOf, countOf, deleteElement, elementOf, hasId, insertKey, keyAt, persistent, removeKey, reordered, setElement, sortedPosition, withBackend } from './backend';
 
-export type ElementWithKey<K> = Record<K & KeyValueType, KeyValueType>;
+export { CompositeKey, KeyName, KeyExtractor, KeySelector, KeyValueType, SelectedKey, encodeKey, keysEqual } from './keys';
+
+export type ElementWithKey<K> = Record<K & string, KeyValueType>;
 export type ElementWithId = ElementWithKey<'id'>;
-export type ElementsWithId<T extends ElementWithId> = { [id: string]: T; };
+export type ElementsWithId<T> = { [id: string]: T; };
+
+export interface IdKeyedList<T, K extends KeyValueType = string> {
+    readonly keys: ReadonlyArray<K>;
+    /** The elements, addressed by their encoded keys, see `encodeKey` */
+    readonly elements: { readonly [id: string]: DeepReadonly<T> };
+    /** Selects the key of the elements, the `id` property is used when not given */
+    keyBy?: KeySelector<T, K>;
+    /** The secondary indexes of the list, see `addIndex` */
+    indexes?: SecondaryIndexes<T, K>;
+    /** Keeps the list sorted by the comparator, see `keepSorted` */
+    compareWith?: Comparator<T>;
+}
+
+/**
+ * What to do, when an element is added with an id, which is already in the list:
+ * - `throw`: throw a `DuplicateKeyError` (the default)
+ * - `replace`: replace the element, but keep its position
+ * - `move`: replace the element and move it to the new position
+ * - `ignore`: keep the list as it is
+ */
+export type DuplicatePolicy = 'throw' | 'replace' | 'move' | 'ignore';
 
-export interface IdKeyedList<T extends ElementWithId> {
-    keys: Array<KeyValueType>;
-    elements: ElementsWithId<T>;
+export interface InsertOptions {
+    onDuplicate?: DuplicatePolicy;
+}
+
+export interface StrictOptions {
+    /** Throw a `MissingKeyError`, when the id is not in the list */
+    strict?: boolean;
 }
 
 /**
  * Create a keyed list from an array. The array elements, must
- * have unique "id" properties
+ * have unique "id" properties, unless an other key is selected.
  * 
  * ```typescript
  * const persons = [
@@ -23,16 +56,66 @@ export interface IdKeyedList<T extends ElementWithId> {
  * 
  * const john = keyedList.getById(list, '2');
  * ```
+ * 
+ * The key can be any property, or it can be computed by a function.
+ * The list remembers the selection, so all other functions work with it:
+ * 
+ * ```typescript
+ * const bySlug = keyedList.fromArray(posts, 'slug');
+ * const byUuid = keyedList.fromArray(posts, post => post.meta.uuid);
+ * 
+ * const post = keyedList.getById(bySlug, 'hello-world');
+ * ```
+ * 
+ * Keys can also be numbers or composite keys. A composite key is a tuple
+ * of strings and numbers:
+ * 
+ * ```typescript
+ * const rows = keyedList.fromArray(rows, 'rowId'); // rowId: number
+ * const orders = keyedList.fromArray(orders, o => [ o.tenantId, o.orderId ]);
+ * 
+ * const order = keyedList.getById(orders, [ 'acme', 42 ]);
+ * ```
+ *
+ * A selection, which may be missing, can be passed on as it is. The
+ * elements are keyed by their "id" then:
+ *
+ * ```typescript
+ * const list = keyedList.fromArray(rows, options.keyBy);
+ * ```
  */
-export const fromArray = <T extends ElementWithId>(array: T[] = []): IdKeyedList<T> => {
-    const keys = array.map(x => x.id);
-    return {
+export function fromArray<T extends { id: KeyValueType }, K extends KeyValueType = SelectedKey<T>>(array?: T[]): IdKeyedList<T, K>;
+export function fromArray<T, N extends KeyName<T>>(array: T[], keyBy: N): IdKeyedList<T, SelectedKey<T, N>>;
+export function fromArray<T, K extends KeyValueType>(array: T[], keyBy: KeyExtractor<T, K>): IdKeyedList<T, K>;
+export function fromArray<T, K extends KeyValueType>(array: T[], keyBy: KeySelector<T, K> | undefined): IdKeyedList<T, K>;
+export function fromArray<T, K extends KeyValueType>(array: T[] = [], keyBy?: KeySelector<T, K>): IdKeyedList<T, K> {
+    const keyOf = keyExtractor(keyBy);
+    const keys = array.map(keyOf);
+    const elements: ElementsWithId<DeepReadonly<T>> = {};
+    array.forEach((x, i) => {
+        elements[encodeKey(keys[i])] = { ...x } as DeepReadonly<T>;
+    });
+    const list: IdKeyedList<T, K> = {
         keys: keys,
-        elements: array.reduce((prev, curr) =>
-            ({ ...prev, [curr.id]: { ...curr } })
-            , {})
+        elements: elements
     };
-};
+    if (keyBy !== undefined) {
+        list.keyBy = keyBy;
+    }
+    return freezeInDevMode(persistent(list));
+}
+
+/**
+ * Gets the key of an element, as selected by the list.
+ * 
+ * ```typescript
+ * const list = keyedList.fromArray(posts, 'slug');
+ * 
+ * const slug = keyedList.getKey(list, post); // == post.slug
+ * ```
+ */
+export const getKey = <T, K extends KeyValueType>(list: IdKeyedList<T, K>, x: Partial<T>): K =>
+    keyExtractor(list.keyBy)(x as T);
 
 /**
  * Convert the keyed list to an array.
@@ -44,8 +127,8 @@ export const fromArray = <T extends ElementWithId>(array: T[] = []): IdKeyedList
  * }
  * ```
  */
-export const toArray = <T extends ElementWithId>(list: IdKeyedList<T>): T[] =>
-    list.keys.map(k => ({ ...list.elements[k] }));
+export const toArray = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>): T[] =>
+    list.keys.map(k => ({ ...list.elements[encodeKey(k)] }) as T);
 
 /**
  * Gets an element by the key, which is the id property of the object here.
@@ -60,8 +143,13 @@ export const toArray = <T extends ElementWithId>(list: IdKeyedList<T>): T[] =>
  * 
  * const steve = keyedList.getById(list, '331');
  * ```
+ *
+ * The element is not copied, unlike by `toArray`, so it is typed as
+ * deeply readonly. The development mode (see `setDevMode`) makes the
+ * mutations throw at runtime as well.
  */
-export const getById = <T extends ElementWithId>(list: IdKeyedList<T>, id: string): T | undefined => list.elements[id];
+export const getById = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, id: K): DeepReadonly<T> | undefined =>
+    elementOf(list, encodeKey(id)) as DeepReadonly<T> | undefined;
 
 /**
  * Get all the ids of the list.
@@ -79,7 +167,7 @@ export const getById = <T extends ElementWithId>(list: IdKeyedList<T>, id: strin
  * 
  * ```
  */
-export const getIds = <T extends ElementWithId>(list: IdKeyedList<T>): string[] =>
+export const getIds = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>): K[] =>
     ([ ...list.keys ]);
 
 /**
@@ -100,10 +188,10 @@ export const getIds = <T extends ElementWithId>(list: IdKeyedList<T>): string[]
  * 
  * ```
  */
-export const getByIds = <T extends ElementWithId>(list: IdKeyedList<T>, ids: Array<string>): T[] => {
+export const getByIds = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, ids: Array<K>): T[] => {
     const newElements: T[] = [];
     ids.map(id => {
-        const x = list.elements[id];
+        const x = elementOf(list, encodeKey(id));
         if (x) {
             newElements.push({ ...x });
         }
@@ -114,14 +202,12 @@ export const getByIds = <T extends ElementWithId>(list: IdKeyedList<T>, ids: Arr
 /**
  * Gets the id at a given index.
 */
-export const getIdByIndex =  <T extends ElementWithId>(list: IdKeyedList<T>, index: number): string | undefined => {
-    if (index >= 0)
-        return list.keys[index];
-    return undefined;
-};
+export const getIdByIndex =  <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, index: number): K | undefined =>
+    keyAt(list, index);
 
 /**
- * Update element.
+ * Update element. Updating an id, which is not in the list, gives back
+ * the same list, or throws a `MissingKeyError` in strict mode.
  * 
  * ```typescript
  * const persons = [
@@ -141,13 +227,25 @@ export const getIdByIndex =  <T extends ElementWithId>(list: IdKeyedList<T>, ind
  * 
  * ```
  */
-export const update = <T extends ElementWithId>(list: IdKeyedList<T>, elemProps: Partial<T> & ElementWithId | T): IdKeyedList<T> => ({
-    ...list,
-    elements: {
-        ...list.elements,
-        [elemProps.id]: Object.assign({}, list.elements[elemProps.id], elemProps)
+export const update = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, elemProps: Partial<T>, options: StrictOptions = {}): IdKeyedList<T, K> => {
+    const key = getKey(list, elemProps);
+    const id = encodeKey(key);
+    if (!hasId(list, id)) {
+        if (options.strict) {
+            throw new MissingKeyError(key);
+        }
+        return list;
     }
-});
+    const current = elementOf(list, id) as T;
+    const updated: T = Object.assign({}, current, elemProps);
+    let backend = setElement(backendOf(list), id, updated);
+    // An element of a sorted list is placed again, when its sorting properties have changed
+    if (list.compareWith && list.compareWith(current, updated) !== 0) {
+        backend = removeKey(backend, key);
+        backend = insertKey(backend, sortedPosition(backend, list.compareWith, updated), key);
+    }
+    return refreshIndexes(list, withBackend(list, backend), [ key ]);
+};
 
 
 /**
@@ -164,8 +262,9 @@ export const update = <T extends ElementWithId>(list: IdKeyedList<T>, elemProps:
  * const peter = keyedList.getFirst(list);
  * ```
  */
-export const getFirst = <T extends ElementWithId>(list: IdKeyedList<T>): T | undefined => {
-    return list.elements[list.keys[0]];
+export const getFirst = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>): DeepReadonly<T> | undefined => {
+    const first = keyAt(list, 0);
+    return first !== undefined ? getById(list, first) : undefined;
 }
 
 /**
@@ -182,8 +281,9 @@ export const getFirst = <T extends ElementWithId>(list: IdKeyedList<T>): T | und
  * const steve = keyedList.getLast(list);
  * ```
  */
-export const getLast = <T extends ElementWithId>(list: IdKeyedList<T>): T | undefined => {
-    return list.elements[list.keys[list.keys.length - 1]];
+export const getLast = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>): DeepReadonly<T> | undefined => {
+    const last = keyAt(list, countOf(list) - 1);
+    return last !== undefined ? getById(list, last) : undefined;
 }
 
 /**
@@ -201,13 +301,15 @@ export const getLast = <T extends ElementWithId>(list: IdKeyedList<T>): T | unde
  * const john = keyedList.getByIndex(list, 2);
  * ```
  */
-export const getByIndex = <T extends ElementWithId>(list: IdKeyedList<T>, index: number): T | undefined => {
-    const idByIndex = list.keys[index];
-    return idByIndex ? list.elements[idByIndex] : undefined;
+export const getByIndex = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, index: number): DeepReadonly<T> | undefined => {
+    const idByIndex = keyAt(list, index);
+    return idByIndex !== undefined ? getById(list, idByIndex) : undefined;
 }
 
 /**
- * Adds a new item to the end of the list.
+ * Adds a new item to the end of the list. Adding an id, which is already
+ * in the list, throws a `DuplicateKeyError`, unless an other `onDuplicate`
+ * policy is given.
  * 
  * ```typescript
  * const persons = [
@@ -231,18 +333,13 @@ export const getByIndex = <T extends ElementWithId>(list: IdKeyedList<T>, index:
  * ```
  * 
  */
-export const append = <T extends ElementWithId>(list: IdKeyedList<T>,  x: T): IdKeyedList<T> => {
-    return {
-        keys: [ ...list.keys, x.id ],
-        elements: {
-            ...list.elements,
-            [x.id]: x
-        }
-    };
-}
+export const append = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>,  x: T, options?: InsertOptions): IdKeyedList<T, K> =>
+    insertAt(list, countOf(list), x, options);
 
 /**
- * Adds a new item to the beginning of the list.
+ * Adds a new item to the beginning of the list. Adding an id, which is
+ * already in the list, is handled by the `onDuplicate` policy, just like
+ * for `append`.
  * 
  * ```typescript
  * const persons = [
@@ -266,24 +363,18 @@ export const append = <T extends ElementWithId>(list: IdKeyedList<T>,  x: T): Id
  * ```
  * 
  */
-export const insert = <T extends ElementWithId>(list: IdKeyedList<T>, x: T): IdKeyedList<T> => {
-    return {
-        keys: [ x.id, ...list.keys ],
-        elements: {
-            ...list.elements,
-            [x.id]: x
-        }
-    };
-}
+export const insert = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, x: T, options?: InsertOptions): IdKeyedList<T, K> =>
+    insertAt(list, 0, x, options);
 
 /**
  * Get element count of the list.
  */
-export const getCount = <T extends ElementWithId>(list: IdKeyedList<T>): number =>
-    list.keys.length;
+export const getCount = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>): number =>
+    countOf(list);
  
 /**
- * Removes the specified element.
+ * Removes the specified element. Removing an id, which is not in the list,
+ * gives back the same list, or throws a `MissingKeyError` in strict mode.
  * 
  * ```typescript
  * const persons = [
@@ -301,18 +392,16 @@ export const getCount = <T extends ElementWithId>(list: IdKeyedList<T>): number
  * // ]; 
  * ```
  */
-export const removeById = <T extends ElementWithId>(list: IdKeyedList<T>, id: string): IdKeyedList<T>  => {
-    const newKeyes = list.keys.filter(xid => xid !== id)
-    return {
-        keys: newKeyes,
-        elements: Object
-          .values(list.elements)
-          .reduce((prev, curr) => {
-            return (curr.id === id)
-              ? ({ ...prev })
-              : ({ ...prev, [curr.id]: curr });
-          }, {})
-    };
+export const removeById = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, id: K, options: StrictOptions = {}): IdKeyedList<T, K>  => {
+    const encodedId = encodeKey(id);
+    if (!hasId(list, encodedId)) {
+        if (options.strict) {
+            throw new MissingKeyError(id);
+        }
+        return list;
+    }
+    const backend = deleteElement(removeKey(backendOf(list), id), encodedId);
+    return refreshIndexes(list, withBackend(list, backend), [ id ]);
 }
 
 /**
@@ -334,8 +423,8 @@ export const removeById = <T extends ElementWithId>(list: IdKeyedList<T>, id: st
  * // ]; 
  * ```
  */
-export const remove = <T extends ElementWithId>(list: IdKeyedList<T>, x: T): IdKeyedList<T> => 
-    removeById(list, x.id);
+export const remove = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, x: T, options?: StrictOptions): IdKeyedList<T, K> => 
+    removeById(list, getKey(list, x), options);
 
 /**
  * Map through the list.
@@ -354,11 +443,11 @@ export const remove = <T extends ElementWithId>(list: IdKeyedList<T>, x: T): IdK
  * });
  * ```
  */
-export const map = <T extends ElementWithId>(list: IdKeyedList<T>
-      , mapper: (x: T, index: number, xs: IdKeyedList<T>) => T) => {
+export const map = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , mapper: (x: T, index: number, xs: IdKeyedList<T, K>) => T) => {
     var i = 0;
     return list.keys.map(key => {
-        const elem = { ...list.elements[key] };
+        const elem = { ...list.elements[encodeKey(key)] } as T;
         return mapper(elem, i++, list)
     });
 };
@@ -380,8 +469,8 @@ export const map = <T extends ElementWithId>(list: IdKeyedList<T>
  * });
  * ```
  */
-export const mapIds = <T extends ElementWithId>(list: IdKeyedList<T>
-      , mapper: (id: string, index: number, xs: IdKeyedList<T>) => string) => {
+export const mapIds = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , mapper: (id: K, index: number, xs: IdKeyedList<T, K>) => K) => {
     return list.keys.map((id, i) => mapper(id, i, list));
 };
 
@@ -402,9 +491,9 @@ export const mapIds = <T extends ElementWithId>(list: IdKeyedList<T>
  * });
  * ```
  */
-export const filter = <T extends ElementWithId>(list: IdKeyedList<T>, filterFunction: (x: T) => boolean) => {
+export const filter = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, filterFunction: (x: DeepReadonly<T>) => boolean) => {
     const keys = list.keys.filter(id => {
-        const elem = list.elements[id];
+        const elem = list.elements[encodeKey(id)];
         return filterFunction(elem);
     });
     return getByIds(list, keys);
@@ -425,13 +514,33 @@ export const filter = <T extends ElementWithId>(list: IdKeyedList<T>, filterFunc
  * const byAge = keyedList.sort(persons, (left, right) => left.age - right.age);
  * ```
  */
-export const sort = <T extends ElementWithId>(list: IdKeyedList<T>, compareWith: (lval: T, rval: T) => number): IdKeyedList<T> => {
-    const sortedElems = toArray(list).sort(compareWith);
-    return {
-        keys: sortedElems.map(x => x.id),
-        elements: sortedElems.reduce((prev, elem) => {
-            prev[elem.id] = elem;
-            return prev;
-        }, {} as ElementsWithId<T>)
-    };
-}
\ No newline at end of file
+export const sort = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, compareWith: (lval: T, rval: T) => number): IdKeyedList<T, K> => {
+    // Only the order changes, so the elements can be shared with the original list
+    const backend = reordered(backendOf(list), sortKeys(compareWith, list.keys, list.elements));
+    return freezeInDevMode(withBackend(list, backend, list.compareWith ? { compareWith } : {}));
+}
+
+export * from './batch';
+export * from './errors';
+export * from './positional';
+export * from './equality';
+export * from './reconcile';
+export * from './diff';
+export * from './pagination';
+export * from './serialization';
+export * from './transforms';
+export * from './queries';
+export * from './redux';
+export * from './store';
+export * from './history';
+export * from './tree';
+export * from './sets';
+export * from './groups';
+export * from './integrity';
+export * from './normalize';
+export * from './optimistic';
+export * from './views';
+export * from './freeze';
+export * from './wrapper';
+export { Comparator, keepSorted, stopSorting, range } from './sorted';
+export { IndexKeySelector, IndexDefinition, SecondaryIndex, SecondaryIndexes, addIndex, removeIndex, lookup, lookupIds } from './indexes';
@@ -491,4 +491,177 @@ test('shows that the keys can be gathered by their index', () => {
   expect(thirdId).toBe(someData[2].id);
 
   assertData(someData);
-})
\ No newline at end of file
+})
+
+interface Post {
+  uuid: string;
+  slug: string;
+  title: string;
+}
+
+const generatePosts = (): Post[] => (
+  [
+    { uuid: 'a1', slug: 'hello-world', title: 'Hello, world!' },
+    { uuid: 'b2', slug: 'second-post', title: 'Second post' }
+  ]
+);
+
+test('shows that a list can be keyed by an other property', () => {
+  const posts = generatePosts();
+  const list = keyedList.fromArray(posts, 'uuid');
+
+  expect(keyedList.getIds(list)).toStrictEqual(['a1', 'b2']);
+  expect(keyedList.getById(list, 'b2')?.slug).toBe('second-post');
+  expect(keyedList.getKey(list, posts[0])).toBe('a1');
+
+  const appended = keyedList.append(list, { uuid: 'c3', slug: 'third', title: 'Third' });
+  const inserted = keyedList.insert(appended, { uuid: 'z0', slug: 'zero', title: 'Zero' });
+  expect(keyedList.getIds(inserted)).toStrictEqual(['z0', 'a1', 'b2', 'c3']);
+
+  const updated = keyedList.update(inserted, { uuid: 'a1', title: 'Hi' });
+  expect(keyedList.getById(updated, 'a1')?.title).toBe('Hi');
+  expect(keyedList.getById(updated, 'a1')?.slug).toBe('hello-world');
+
+  const removed = keyedList.remove(updated, posts[1]);
+  expect(keyedList.getIds(removed)).toStrictEqual(['z0', 'a1', 'c3']);
+  expect(keyedList.getById(removed, 'b2')).not.toBeDefined();
+
+  // Without an id property, the key has to be selected
+  // @ts-expect-error
+  const withoutKey = () => keyedList.fromArray(posts);
+});
+
+test('shows that a selection, which may be missing, can be passed on', () => {
+  const bySelection = (keyBy?: keyedList.KeySelector<Post>) => keyedList.fromArray(generatePosts(), keyBy);
+  const wrapped = (keyBy?: keyedList.KeySelector<Post>) => keyedList.KeyedList.fromArray(generatePosts(), keyBy);
+
+  expect(keyedList.getIds(bySelection('slug'))).toStrictEqual(['hello-world', 'second-post']);
+  expect(wrapped(post => post.uuid).getIds()).toStrictEqual(['a1', 'b2']);
+  const byId = (keyBy?: keyedList.KeySelector<SomeData>) => keyedList.fromArray(generateData(), keyBy);
+  expect(keyedList.getIds(byId(undefined))).toStrictEqual(['123', '111', '98']);
+});
+
+test('shows that a list can be keyed by an extractor function', () => {
+  const posts = generatePosts();
+  const list = keyedList.fromArray(posts, post => post.slug);
+
+  expect(keyedList.getIds(list)).toStrictEqual(['hello-world', 'second-post']);
+  expect(keyedList.getById(list, 'hello-world')?.uuid).toBe('a1');
+
+  const sorted = keyedList.sort(list, (left, right) => right.title.localeCompare(left.title));
+  expect(keyedList.getIds(sorted)).toStrictEqual(['second-post', 'hello-world']);
+  expect(keyedList.getById(sorted, 'second-post')?.uuid).toBe('b2');
+
+  const removed = keyedList.removeById(sorted, 'second-post');
+  expect(keyedList.getIds(removed)).toStrictEqual(['hello-world']);
+  expect(keyedList.getKey(removed, posts[0])).toBe('hello-world');
+});
+
+interface Row {
+  rowId: number;
+  label: string;
+}
+
+interface Order {
+  tenantId: string;
+  orderId: number;
+  total: number;
+}
+
+test('shows that numeric keys keep their type', () => {
+  const rows: Row[] = [ { rowId: 0, label: 'zero' }, { rowId: 7, label: 'seven' } ];
+  const list = keyedList.fromArray(rows, 'rowId');
+
+  const ids: number[] = keyedList.getIds(list);
+  expect(ids).toStrictEqual([0, 7]);
+  expect(keyedList.getIdByIndex(list, 0)).toBe(0);
+  expect(keyedList.mapIds(list, id => id * 2)).toStrictEqual([0, 14]);
+  expect(keyedList.getById(list, 7)?.label).toBe('seven');
+  expect(keyedList.getByIndex(list, 0)?.label).toBe('zero');
+  expect(keyedList.getFirst(list)?.label).toBe('zero');
+
+  const removed = keyedList.removeById(list, 0);
+  expect(keyedList.getIds(removed)).toStrictEqual([7]);
+  expect(keyedList.getById(removed, 0)).not.toBeDefined();
+});
+
+test('shows that composite keys address the elements', () => {
+  const orders: Order[] = [
+    { tenantId: 'acme', orderId: 1, total: 10 },
+    { tenantId: 'acme', orderId: 2, total: 20 },
+    { tenantId: 'initech', orderId: 1, total: 30 }
+  ];
+  const list = keyedList.fromArray(orders, o => [ o.tenantId, o.orderId ]);
+
+  expect(keyedList.getIds(list)).toStrictEqual([ ['acme', 1], ['acme', 2], ['initech', 1] ]);
+  expect(keyedList.getById(list, ['initech', 1])?.total).toBe(30);
+  expect(keyedList.getByIds(list, [ ['acme', 2], ['acme', 3] ])).toStrictEqual([ orders[1] ]);
+
+  const updated = keyedList.update(list, { tenantId: 'acme', orderId: 1, total: 15 });
+  expect(keyedList.getById(updated, ['acme', 1])?.total).toBe(15);
+  expect(keyedList.getCount(updated)).toBe(3);
+
+  const removed = keyedList.removeById(updated, ['acme', 2]);
+  expect(keyedList.getIds(removed)).toStrictEqual([ ['acme', 1], ['initech', 1] ]);
+});
+
+test('shows how the keys are encoded and compared', () => {
+  expect(keyedList.encodeKey('abc')).toBe('abc');
+  expect(keyedList.encodeKey(42)).toBe('42');
+  expect(keyedList.encodeKey(['acme', 42])).toBe('["acme",42]');
+  expect(keyedList.keysEqual(['acme', 42], ['acme', 42])).toBe(true);
+  expect(keyedList.keysEqual(['acme', 42], ['acme', 43])).toBe(false);
+});
+
+test('shows that appending or inserting an existing id throws by default', () => {
+  const list = keyedList.fromArray(generateData());
+  const duplicate = { id: '111', name: 'Alfie', age: 13 };
+
+  expect(() => keyedList.append(list, duplicate)).toThrow(keyedList.DuplicateKeyError);
+  expect(() => keyedList.insert(list, duplicate)).toThrow(keyedList.DuplicateKeyError);
+
+  try {
+    keyedList.append(list, duplicate);
+  } catch (e) {
+    expect(e).toBeInstanceOf(keyedList.KeyedListError);
+    expect(e.key).toBe('111');
+  }
+});
+
+test('shows that the duplicate policy can replace, move or ignore the element', () => {
+  const list = keyedList.fromArray(generateData());
+  const duplicate = { id: '111', name: 'Alfie', age: 13 };
+
+  const replaced = keyedList.append(list, duplicate, { onDuplicate: 'replace' });
+  expect(keyedList.getIds(replaced)).toStrictEqual(['123', '111', '98']);
+  expect(keyedList.getById(replaced, '111')?.name).toBe('Alfie');
+
+  const moved = keyedList.append(list, duplicate, { onDuplicate: 'move' });
+  expect(keyedList.getIds(moved)).toStrictEqual(['123', '98', '111']);
+  expect(keyedList.getCount(moved)).toBe(3);
+  expect(keyedList.toArray(moved).length).toBe(3);
+  expect(keyedList.getById(moved, '111')?.name).toBe('Alfie');
+
+  const movedToFront = keyedList.insert(list, duplicate, { onDuplicate: 'move' });
+  expect(keyedList.getIds(movedToFront)).toStrictEqual(['111', '123', '98']);
+
+  const ignored = keyedList.insert(list, duplicate, { onDuplicate: 'ignore' });
+  expect(ignored).toBe(list);
+  assertListElements(list);
+});
+
+test('shows that updating or removing a missing id keeps the list, or throws in strict mode', () => {
+  const list = keyedList.fromArray(generateData());
+
+  const updated = keyedList.update(list, { id: '999', name: 'Nobody' });
+  expect(updated).toBe(list);
+  expect(keyedList.getById(updated, '999')).not.toBeDefined();
+  expect(Object.keys(updated.elements).length).toBe(3);
+
+  expect(keyedList.removeById(list, '999')).toBe(list);
+
+  expect(() => keyedList.update(list, { id: '999', name: 'Nobody' }, { strict: true }))
+    .toThrow(keyedList.MissingKeyError);
+  expect(() => keyedList.removeById(list, '999', { strict: true })).toThrow(keyedList.MissingKeyError);
+  expect(keyedList.getCount(keyedList.removeById(list, '111', { strict: true }))).toBe(2);
+});
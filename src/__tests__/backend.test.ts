@@ -0,0 +1,142 @@
+import keyedList from '../index';
+import { IdKeyedList } from '../KeyedList';
+
+interface Row {
+  id: string;
+  votes: number;
+}
+
+// A deterministic random generator, so a failing sequence can be repeated
+const randomOf = (seed: number) => (n: number) => {
+  seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+  return seed % n;
+};
+
+const rowsOf = (count: number): Row[] =>
+  Array.from({ length: count }, (_, i) => ({ id: `r${ i }`, votes: i }));
+
+test('shows that random edits are giving the same lists as the arrays, while the previous versions are kept', () => {
+  const random = randomOf(42);
+  let list = keyedList.fromArray(rowsOf(50));
+  let model = rowsOf(50);
+  const versions: { list: IdKeyedList<Row>; model: Row[] }[] = [];
+
+  for (let i = 0; i < 2000; i++) {
+    versions.push({ list, model });
+    const id = `n${ i }`;
+    const index = random(model.length + 1);
+    switch (random(6)) {
+      case 0:
+        list = keyedList.insertAt(list, index, { id, votes: i });
+        model = [ ...model.slice(0, index), { id, votes: i }, ...model.slice(index) ];
+        break;
+      case 1:
+        list = keyedList.append(list, { id, votes: i });
+        model = [ ...model, { id, votes: i } ];
+        break;
+      case 2:
+        list = keyedList.insert(list, { id, votes: i });
+        model = [ { id, votes: i }, ...model ];
+        break;
+      case 3:
+        if (model.length > 0) {
+          const removed = model[random(model.length)].id;
+          list = keyedList.removeById(list, removed);
+          model = model.filter(x => x.id !== removed);
+        }
+        break;
+      case 4:
+        if (model.length > 0) {
+          const updated = model[random(model.length)].id;
+          list = keyedList.update(list, { id: updated, votes: -i });
+          model = model.map(x => x.id === updated ? { ...x, votes: -i } : x);
+        }
+        break;
+      default:
+        if (model.length > 0) {
+          const moved = model[random(model.length)];
+          const toIndex = random(model.length);
+          list = keyedList.move(list, moved.id, toIndex);
+          const rest = model.filter(x => x.id !== moved.id);
+          model = [ ...rest.slice(0, toIndex), moved, ...rest.slice(toIndex) ];
+        }
+    }
+  }
+
+  // Every 20th version is checked, since the lists are long by then
+  versions.filter((_, i) => i % 20 === 0).forEach(version => {
+    expect(keyedList.toArray(version.list)).toStrictEqual(version.model);
+    expect(keyedList.getCount(version.list)).toBe(version.model.length);
+  });
+  model.forEach((x, i) => {
+    expect(keyedList.getIdByIndex(list, i)).toBe(x.id);
+    expect(keyedList.indexOfId(list, x.id)).toBe(i);
+    expect(keyedList.getById(list, x.id)).toStrictEqual(x);
+  });
+});
+
+test('shows that the elements are placed right, when they are inserted at the same index many times', () => {
+  let list = keyedList.fromArray(rowsOf(2));
+  const ids = [ 'r0' ];
+  for (let i = 0; i < 3000; i++) {
+    list = keyedList.insertAt(list, 1, { id: `n${ i }`, votes: i });
+    ids.splice(1, 0, `n${ i }`);
+  }
+  ids.push('r1');
+
+  expect(keyedList.getIds(list)).toStrictEqual(ids);
+});
+
+test('shows that the unchanged parts are shared with the original list', () => {
+  const list = keyedList.fromArray(rowsOf(100));
+  const updated = keyedList.update(list, { id: 'r5', votes: 500 });
+  const sorted = keyedList.sort(list, (left, right) => right.votes - left.votes);
+  const removed = keyedList.removeById(list, 'r7');
+
+  expect(updated.keys).toBe(list.keys);
+  expect(sorted.elements).toBe(list.elements);
+  expect(removed.elements.r8).toBe(list.elements.r8);
+  expect(keyedList.getById(updated, 'r6')).toBe(keyedList.getById(list, 'r6'));
+  expect(keyedList.removeById(list, 'x')).toBe(list);
+  expect(keyedList.update(list, { id: 'x', votes: 1 })).toBe(list);
+});
+
+test('shows that the lists are still plain objects', () => {
+  const list = keyedList.append(keyedList.fromArray(rowsOf(2)), { id: 'n', votes: 9 });
+  const plain = {
+    keys: [ 'r0', 'r1', 'n' ],
+    elements: { r0: { id: 'r0', votes: 0 }, r1: { id: 'r1', votes: 1 }, n: { id: 'n', votes: 9 } }
+  };
+
+  expect(list).toStrictEqual(plain);
+  expect({ ...list }).toStrictEqual(plain);
+  expect(JSON.parse(JSON.stringify(list))).toStrictEqual(plain);
+  expect(Object.keys(list)).toStrictEqual([ 'keys', 'elements' ]);
+});
+
+test('shows that a list made by hand can be edited', () => {
+  const list: IdKeyedList<Row> = {
+    keys: [ 'a', 'b' ],
+    elements: { a: { id: 'a', votes: 1 }, b: { id: 'b', votes: 2 } }
+  };
+  const updated = keyedList.update(list, { id: 'a', votes: 3 });
+  const appended = keyedList.append(updated, { id: 'c', votes: 4 });
+
+  expect(updated.keys).toBe(list.keys);
+  expect(keyedList.getIds(appended)).toStrictEqual([ 'a', 'b', 'c' ]);
+  expect(keyedList.getById(appended, 'a')).toStrictEqual({ id: 'a', votes: 3 });
+  expect(list.elements.a.votes).toBe(1);
+});
+
+test('shows that the keys with the same hash are kept apart', () => {
+  // These two ids are having the same 32 bit hash
+  const list = keyedList.fromArray([ { id: 'c693596', votes: 1 }, { id: 'c1170850', votes: 2 } ]);
+  const removed = keyedList.removeById(list, 'c693596');
+  const added = keyedList.append(removed, { id: 'c693596', votes: 3 });
+
+  expect(keyedList.getById(list, 'c693596')).toStrictEqual({ id: 'c693596', votes: 1 });
+  expect(keyedList.getById(list, 'c1170850')).toStrictEqual({ id: 'c1170850', votes: 2 });
+  expect(keyedList.has(removed, 'c693596')).toBe(false);
+  expect(keyedList.getById(removed, 'c1170850')).toStrictEqual({ id: 'c1170850', votes: 2 });
+  expect(keyedList.toArray(added)).toStrictEqual([ { id: 'c1170850', votes: 2 }, { id: 'c693596', votes: 3 } ]);
+});
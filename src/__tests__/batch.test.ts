@@ -0,0 +1,136 @@
+import keyedList from '../index';
+
+interface SomeData {
+  id: string;
+  name: string;
+  age: number;
+}
+
+const generateData = (): SomeData[] => (
+  [
+    { id: '123', name: 'John', age: 51 },
+    { id: '111', name: 'Alfred', age: 12 },
+    { id: '98', name: 'Jon', age: 31 }
+  ]
+);
+
+test('shows that many edits are collected into a single new list', () => {
+  const list = keyedList.fromArray(generateData());
+
+  const newList = keyedList.withMutations(list, draft => {
+    draft.append({ id: '555', name: 'Jean', age: 16 });
+    draft.insert({ id: '1', name: 'Luka', age: 30 });
+    draft.update({ id: '111', age: 13 });
+    draft.removeById('98');
+    draft.move('555', 0);
+  });
+
+  expect(keyedList.getIds(newList)).toStrictEqual(['555', '1', '123', '111']);
+  expect(keyedList.getById(newList, '111')?.age).toBe(13);
+  expect(keyedList.getById(newList, '98')).not.toBeDefined();
+
+  expect(keyedList.getIds(list)).toStrictEqual(['123', '111', '98']);
+  expect(keyedList.getById(list, '111')?.age).toBe(12);
+});
+
+test('shows that the draft reflects the edits so far', () => {
+  const list = keyedList.fromArray(generateData());
+  const counts: number[] = [];
+
+  const newList = keyedList.batch(list, draft => {
+    counts.push(draft.getCount());
+    draft.remove(keyedList.getById(list, '123') as SomeData);
+    counts.push(draft.getCount());
+    draft.append({ id: '123', name: 'Johnny', age: 52 });
+    counts.push(draft.getCount());
+    expect(draft.getById('123')?.name).toBe('Johnny');
+  });
+
+  expect(counts).toStrictEqual([3, 2, 3]);
+  expect(keyedList.getIds(newList)).toStrictEqual(['111', '98', '123']);
+});
+
+test('shows that the original list is given back when nothing changed', () => {
+  const list = keyedList.fromArray(generateData());
+
+  const same = keyedList.withMutations(list, draft => {
+    draft.update({ id: '111', name: 'Alfred' });
+    draft.removeById('999');
+    draft.move('123', 0);
+  });
+
+  expect(same).toBe(list);
+});
+
+test('shows that the original list is given back when the edits are undoing each other', () => {
+  const list = keyedList.fromArray(generateData());
+  const withMutations = (mutate: (draft: keyedList.KeyedListDraft<SomeData>) => void) => keyedList.withMutations(list, mutate);
+
+  expect(withMutations(draft => {
+    draft.append({ id: '555', name: 'Jean', age: 16 });
+    draft.removeById('555');
+  })).toBe(list);
+  expect(withMutations(draft => {
+    draft.append(keyedList.getById(list, '111') as SomeData, { onDuplicate: 'replace' });
+  })).toBe(list);
+  expect(withMutations(draft => {
+    draft.move('123', 2);
+    draft.move('123', 0);
+  })).toBe(list);
+  expect(withMutations(draft => {
+    draft.update({ id: '111', age: 13 });
+    draft.update({ id: '111', age: 12 });
+  })).toBe(list);
+  expect(withMutations(draft => {
+    draft.removeById('98');
+    draft.append(keyedList.getById(list, '98') as SomeData);
+  })).toBe(list);
+});
+
+test('shows that the selected key of the list is used by the draft', () => {
+  const list = keyedList.fromArray([ { rowId: 1, label: 'one' } ], 'rowId');
+
+  const newList = keyedList.withMutations(list, draft => {
+    draft.append({ rowId: 2, label: 'two' });
+    draft.update({ rowId: 1, label: 'uno' });
+  });
+
+  expect(keyedList.getIds(newList)).toStrictEqual([1, 2]);
+  expect(keyedList.getById(newList, 1)?.label).toBe('uno');
+  expect(newList.keyBy).toBe('rowId');
+});
+
+test('shows that the draft follows the duplicate policy and the strict mode', () => {
+  const list = keyedList.fromArray(generateData());
+
+  expect(() => keyedList.withMutations(list, draft => draft.append({ id: '111', name: 'Alfie', age: 13 })))
+    .toThrow(keyedList.DuplicateKeyError);
+  expect(() => keyedList.withMutations(list, draft => draft.update({ id: '999', age: 1 }, { strict: true })))
+    .toThrow(keyedList.MissingKeyError);
+  expect(() => keyedList.withMutations(list, draft => draft.move('999', 1)))
+    .toThrow(keyedList.MissingKeyError);
+
+  const newList = keyedList.withMutations(list, draft => {
+    draft.append({ id: '111', name: 'Alfie', age: 13 }, { onDuplicate: 'move' });
+    draft.insert({ id: '98', name: 'Jonny', age: 32 }, { onDuplicate: 'replace' });
+    draft.insert({ id: '123', name: 'Johnny', age: 52 }, { onDuplicate: 'ignore' });
+    draft.update({ id: '999', age: 1 });
+  });
+
+  expect(keyedList.getIds(newList)).toStrictEqual(['123', '98', '111']);
+  expect(keyedList.getById(newList, '111')?.name).toBe('Alfie');
+  expect(keyedList.getById(newList, '98')?.name).toBe('Jonny');
+  expect(keyedList.getById(newList, '123')?.name).toBe('John');
+  expect(keyedList.getById(newList, '999')).not.toBeDefined();
+});
+
+test('shows that a draft moves an element to the same index as move does', () => {
+  const list = keyedList.fromArray(generateData());
+
+  [ -1, 0, 1, 2, 99 ].forEach(toIndex => {
+    expect(keyedList.getIds(keyedList.withMutations(list, draft => draft.move('98', toIndex))))
+      .toStrictEqual(keyedList.getIds(keyedList.move(list, '98', toIndex)));
+  });
+  expect(keyedList.getIds(keyedList.withMutations(list, draft => draft.move('98', -1)))).toStrictEqual(['98', '123', '111']);
+  expect(keyedList.withMutations(list, draft => draft.move('98', 99))).toBe(list);
+});
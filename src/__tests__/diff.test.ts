@@ -0,0 +1,141 @@
+import keyedList from '../index';
+
+interface Item {
+  id: string;
+  label: string;
+  tags?: string[];
+}
+
+const fromLabels = (ids: string[]): keyedList.IdKeyedList<Item> =>
+  keyedList.fromArray(ids.map(id => ({ id, label: id.toUpperCase() })));
+
+const roundTrip = <T>(x: T): T => JSON.parse(JSON.stringify(x));
+
+// A small deterministic pseudo-random generator, so the test is repeatable
+const random = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+test('shows that the differences are described by removals, updates, inserts and moves', () => {
+  const before = keyedList.fromArray<Item>([
+    { id: 'a', label: 'A' },
+    { id: 'b', label: 'B', tags: ['x'] },
+    { id: 'c', label: 'C' }
+  ]);
+  const after = keyedList.fromArray<Item>([
+    { id: 'c', label: 'C' },
+    { id: 'd', label: 'D' },
+    { id: 'b', label: 'Bee' }
+  ]);
+
+  const patch = keyedList.diff(before, after);
+
+  expect(patch).toStrictEqual({
+    version: 1,
+    operations: [
+      { op: 'remove', key: 'a' },
+      { op: 'update', key: 'b', set: { label: 'Bee' }, unset: ['tags'] },
+      { op: 'move', key: 'c', index: 0 },
+      { op: 'insert', key: 'd', index: 1, value: { id: 'd', label: 'D' } }
+    ]
+  });
+  expect(keyedList.applyPatch(before, patch)).toEqual(after);
+});
+
+test('shows that only the smallest set of elements is moved', () => {
+  const before = fromLabels(['a', 'b', 'c', 'd']);
+  const after = fromLabels(['d', 'a', 'b', 'c']);
+
+  const patch = keyedList.diff(before, after);
+
+  expect(patch.operations).toStrictEqual([ { op: 'move', key: 'd', index: 0 } ]);
+  expect(keyedList.applyPatch(before, patch)).toEqual(after);
+});
+
+test('shows that an empty patch gives back the same list', () => {
+  const list = fromLabels(['a', 'b']);
+
+  const patch = keyedList.diff(list, fromLabels(['a', 'b']));
+
+  expect(patch.operations).toStrictEqual([]);
+  expect(keyedList.applyPatch(list, patch)).toBe(list);
+});
+
+test('shows that the ids, which are also names of object properties, are not moved without a reason', () => {
+  const list = fromLabels(['toString', 'a', 'constructor']);
+
+  const patch = keyedList.diff(list, keyedList.fromArray(keyedList.toArray(list)));
+
+  expect(patch.operations).toStrictEqual([]);
+});
+
+test('shows that applying the differences of two lists gives back the second one', () => {
+  const next = random(42);
+  const pick = (n: number) => Math.floor(next() * n);
+  const shuffle = (xs: string[]) => {
+    const result = [ ...xs ];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = pick(i + 1);
+      [ result[i], result[j] ] = [ result[j], result[i] ];
+    }
+    return result;
+  };
+  const pool = 'abcdefghijklmnopqrstuvwxyz'.split('');
+
+  for (let round = 0; round < 200; round++) {
+    const before = keyedList.fromArray(shuffle(pool).slice(0, pick(12)).map(id => ({ id, label: id, n: pick(3) })));
+    const after = keyedList.fromArray(shuffle(pool).slice(0, pick(12)).map(id => ({ id, label: id, n: pick(3) })));
+
+    const patch = roundTrip(keyedList.diff(before, after));
+
+    expect(keyedList.applyPatch(before, patch)).toEqual(after);
+  }
+});
+
+test('shows that composite keys and unusual ids can be patched', () => {
+  const byTypeAndNumber = (x: { t: string, n: number }) => [ x.t, x.n ];
+  const before = keyedList.fromArray([ { t: 'x', n: 1 }, { t: 'x', n: 2 } ], byTypeAndNumber);
+  const after = keyedList.fromArray([ { t: 'x', n: 2 }, { t: 'constructor', n: 0 } ], byTypeAndNumber);
+  const odd = keyedList.fromArray([ { id: 'constructor', label: 'odd' } ]);
+
+  expect(keyedList.applyPatch(before, roundTrip(keyedList.diff(before, after)))).toEqual(after);
+  expect(keyedList.applyPatch(fromLabels([]), keyedList.diff(fromLabels([]), odd))).toEqual(odd);
+});
+
+test('shows that patches, which do not fit the list are rejected', () => {
+  const list = fromLabels(['a']);
+
+  expect(() => keyedList.applyPatch(list, { version: 1, operations: [ { op: 'remove', key: 'x' } ] }))
+    .toThrow(keyedList.MissingKeyError);
+  expect(() => keyedList.applyPatch(list, {
+    version: 1,
+    operations: [ { op: 'insert', key: 'a', index: 0, value: { id: 'a', label: 'A' } } ]
+  })).toThrow(keyedList.DuplicateKeyError);
+  expect(() => keyedList.applyPatch(list, { version: 2, operations: [] } as any))
+    .toThrow(keyedList.InvalidPatchError);
+  expect(() => keyedList.applyPatch(list, { version: 1, operations: [ { op: 'rename', key: 'a' } ] } as any))
+    .toThrow(keyedList.InvalidPatchError);
+});
+
+test('shows that operations with a wrong shape are rejected', () => {
+  const list = fromLabels(['a']);
+  const patchOf = (operation: unknown) => JSON.parse(JSON.stringify({ version: 1, operations: [ operation ] }));
+
+  [
+    null,
+    { op: 'remove' },
+    { op: 'remove', key: { id: 'a' } },
+    { op: 'update', key: 'a', set: { label: 'B' } },
+    { op: 'update', key: 'a', unset: [] },
+    { op: 'update', key: 'a', set: { label: 'B' }, unset: [ 1 ] },
+    { op: 'insert', key: 'b', value: { id: 'b', label: 'B' } },
+    { op: 'insert', key: 'b', index: 0 },
+    { op: 'move', key: 'a', index: '0' }
+  ].forEach(operation => {
+    expect(() => keyedList.applyPatch(list, patchOf(operation))).toThrow(keyedList.InvalidPatchError);
+  });
+  expect(() => keyedList.applyPatch(list, { version: 1 } as any)).toThrow(keyedList.InvalidPatchError);
+  expect(keyedList.getById(keyedList.applyPatch(list, patchOf({ op: 'update', key: 'a', set: { label: 'B' }, unset: [] })), 'a'))
+    .toStrictEqual({ id: 'a', label: 'B' });
+});
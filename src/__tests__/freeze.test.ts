@@ -0,0 +1,112 @@
+import keyedList from '../index';
+
+interface Person {
+  id: string;
+  name: string;
+  tags: string[];
+}
+
+const generateList = () => keyedList.fromArray<Person>([
+  { id: '100', name: 'Peter', tags: ['admin'] },
+  { id: '211', name: 'John', tags: [] }
+]);
+
+afterEach(() => {
+  keyedList.setDevMode(false);
+});
+
+test('shows that the returned elements are typed as deeply readonly', () => {
+  const list = generateList();
+  const peter = keyedList.getById(list, '100')!;
+
+  // @ts-expect-error
+  peter.name = 'Tom';
+  // @ts-expect-error
+  peter.tags.push('owner');
+  // @ts-expect-error
+  list.keys.push('331');
+
+  expect(keyedList.getById(list, '100')!.name).toBe('Tom');
+});
+
+test('shows that every accessor, which does not copy, is typed as deeply readonly', () => {
+  const list = keyedList.addIndex(generateList(), 'byName', { key: 'name' });
+  const wrapped = keyedList.KeyedList.from(list);
+
+  // @ts-expect-error
+  list.elements['100'].name = 'Tom';
+  // @ts-expect-error
+  keyedList.find(list, p => p.id === '100')!.tags.push('owner');
+  // @ts-expect-error
+  keyedList.lookup(list, 'byName', 'John')[0].name = 'Tom';
+  // @ts-expect-error
+  keyedList.forEach(list, p => p.tags.push('owner'));
+  // @ts-expect-error
+  keyedList.getChildren(list, null)[0].name = 'Tom';
+  // @ts-expect-error
+  keyedList.createSelectors((state: typeof list) => state).selectAll(list)[0].name = 'Tom';
+  // @ts-expect-error
+  Array.from(wrapped)[1].name = 'Tom';
+
+  expect(keyedList.reduce(list, (names, p) => [ ...names, p.name ], [] as string[])).toStrictEqual(['Tom', 'Tom']);
+});
+
+test('shows that the lists are not frozen by default', () => {
+  const list = generateList();
+
+  expect(keyedList.isDevMode()).toBe(false);
+  expect(Object.isFrozen(list)).toBe(false);
+  expect(Object.isFrozen(keyedList.getFirst(list))).toBe(false);
+});
+
+test('shows that the development mode deep-freezes the lists and their elements', () => {
+  keyedList.setDevMode(true);
+  const list = keyedList.append(generateList(), { id: '331', name: 'Steve', tags: [] });
+
+  expect(Object.isFrozen(list)).toBe(true);
+  expect(Object.isFrozen(list.keys)).toBe(true);
+  expect(() => {
+    (keyedList.getLast(list) as Person).name = 'Tom';
+  }).toThrow(TypeError);
+  expect(() => {
+    (keyedList.getByIndex(list, 0) as Person).tags.push('owner');
+  }).toThrow(TypeError);
+
+  const sorted = keyedList.sort(list, (left, right) => left.name.localeCompare(right.name));
+  expect(Object.isFrozen(sorted.keys)).toBe(true);
+  const moved = keyedList.move(list, '331', 0);
+  expect(Object.isFrozen(moved)).toBe(true);
+
+  // The functions are still giving back new lists
+  const updated = keyedList.update(list, { id: '100', name: 'Tom' });
+  expect(keyedList.getById(updated, '100')!.name).toBe('Tom');
+  expect(keyedList.getById(list, '100')!.name).toBe('Peter');
+});
+
+test('shows that the binary data is not frozen', () => {
+  keyedList.setDevMode(true);
+  const list = keyedList.fromArray([ { id: 'a', bytes: new Uint8Array([1]) } ]);
+  const bytes = keyedList.getById(list, 'a')!.bytes;
+  bytes[0] = 2;
+
+  expect(Object.isFrozen(keyedList.getById(list, 'a'))).toBe(true);
+  expect(Object.isFrozen(bytes)).toBe(false);
+  expect(bytes[0]).toBe(2);
+});
+
+test('shows that the development mode freezes the nested objects, which were passed in', () => {
+  keyedList.setDevMode(true);
+  const persons: Person[] = [ { id: '100', name: 'Peter', tags: ['admin'] } ];
+  keyedList.fromArray(persons);
+
+  expect(Object.isFrozen(persons[0])).toBe(false);
+  expect(Object.isFrozen(persons[0].tags)).toBe(true);
+});
+
+test('shows that deepFreeze stops at the cycles', () => {
+  const node: { name: string, self?: unknown } = { name: 'loop' };
+  node.self = node;
+
+  expect(keyedList.deepFreeze(node)).toBe(node);
+  expect(Object.isFrozen(node)).toBe(true);
+});
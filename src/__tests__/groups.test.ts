@@ -0,0 +1,70 @@
+import keyedList from '../index';
+
+interface Task {
+  id: string;
+  status: 'todo' | 'done' | null;
+  points: number;
+}
+
+const generateList = () => keyedList.fromArray<Task>([
+  { id: 't1', status: 'todo', points: 3 },
+  { id: 't2', status: 'done', points: 1 },
+  { id: 't3', status: 'todo', points: 5 },
+  { id: 't4', status: null, points: 2 },
+  { id: 't5', status: 'done', points: 8 }
+]);
+
+test('shows that the elements are grouped in their original order', () => {
+  const list = generateList();
+
+  const byStatus = keyedList.groupBy(list, 'status');
+  expect(Object.keys(byStatus)).toStrictEqual(['todo', 'done']);
+  expect(keyedList.getIds(byStatus.todo)).toStrictEqual(['t1', 't3']);
+  expect(keyedList.getIds(byStatus.done)).toStrictEqual(['t2', 't5']);
+
+  const bySize = keyedList.groupByMap(list, task => task.points > 2);
+  expect(Array.from(bySize.keys())).toStrictEqual([true, false]);
+  expect(keyedList.getIds(bySize.get(false)!)).toStrictEqual(['t2', 't4']);
+});
+
+test('shows that regroup moves only the changed elements', () => {
+  const list = generateList();
+  const byStatus = keyedList.groupBy(list, 'status');
+
+  const updated = keyedList.update(list, { id: 't5', status: 'todo' });
+  const regrouped = keyedList.regroup(byStatus, list, updated, 'status');
+  expect(keyedList.getIds(regrouped.todo)).toStrictEqual(['t1', 't3', 't5']);
+  expect(keyedList.getIds(regrouped.done)).toStrictEqual(['t2']);
+  expect(byStatus.done.keys).toStrictEqual(['t2', 't5']);
+
+  const pointsChanged = keyedList.update(list, { id: 't1', points: 4 });
+  const samePlaces = keyedList.regroup(byStatus, list, pointsChanged, 'status');
+  expect(samePlaces.done).toBe(byStatus.done);
+  expect(keyedList.getById(samePlaces.todo, 't1')!.points).toBe(4);
+
+  const moved = keyedList.move(list, 't3', 0);
+  expect(keyedList.getIds(keyedList.regroup(byStatus, list, moved, 'status').todo)).toStrictEqual(['t3', 't1']);
+
+  const removed = keyedList.removeById(keyedList.removeById(list, 't2'), 't5');
+  expect(Object.keys(keyedList.regroup(byStatus, list, removed, 'status'))).toStrictEqual(['todo']);
+
+  expect(keyedList.regroup(byStatus, list, list, 'status')).toBe(byStatus);
+});
+
+test('shows that a map of groups is regrouped into a new map', () => {
+  const list = generateList();
+  const bySize = keyedList.groupByMap(list, task => task.points > 2);
+
+  const updated = keyedList.append(keyedList.update(list, { id: 't2', points: 10 }), { id: 't6', status: 'todo', points: 1 });
+  const regrouped = keyedList.regroup(bySize, list, updated, task => task.points > 2);
+  expect(keyedList.getIds(regrouped.get(true)!)).toStrictEqual(['t1', 't2', 't3', 't5']);
+  expect(keyedList.getIds(regrouped.get(false)!)).toStrictEqual(['t4', 't6']);
+  expect(keyedList.getIds(bySize.get(true)!)).toStrictEqual(['t1', 't3', 't5']);
+});
+
+test('shows that partition splits the list in two', () => {
+  const [ big, small ] = keyedList.partition(generateList(), task => task.points > 2);
+
+  expect(keyedList.getIds(big)).toStrictEqual(['t1', 't3', 't5']);
+  expect(keyedList.getIds(small)).toStrictEqual(['t2', 't4']);
+});
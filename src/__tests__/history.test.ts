@@ -0,0 +1,123 @@
+import keyedList from '../index';
+
+interface Todo {
+  id: string;
+  text: string;
+}
+
+const generateList = () => keyedList.fromArray<Todo>([
+  { id: 't1', text: 'Write' },
+  { id: 't2', text: 'Test' },
+  { id: 't3', text: 'Ship' }
+]);
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('shows that the operations can be undone and redone', () => {
+  const initial = generateList();
+  const history = keyedList.createHistory(initial);
+
+  history.append({ id: 't4', text: 'Celebrate' });
+  history.update({ id: 't1', text: 'Draft' });
+  history.move('t3', 0);
+  const afterMove = history.getSnapshot();
+  history.removeById('t2');
+  history.removeById('missing');
+
+  expect(history.undoSteps().map(({ operation, ids }) => ({ operation, ids }))).toStrictEqual([
+    { operation: 'removeById', ids: ['t2'] },
+    { operation: 'move', ids: ['t3'] },
+    { operation: 'update', ids: ['t1'] },
+    { operation: 'append', ids: ['t4'] }
+  ]);
+
+  expect(history.undo()!.ids).toStrictEqual(['t2']);
+  expect(history.getSnapshot()).toBe(afterMove);
+  expect(history.canRedo()).toBe(true);
+  history.undo();
+  history.undo();
+  history.undo();
+  expect(history.getSnapshot()).toBe(initial);
+  expect(history.canUndo()).toBe(false);
+  expect(history.undo()).toBeUndefined();
+
+  expect(history.redo()!.operation).toBe('append');
+  expect(history.redoSteps().map(step => step.operation)).toStrictEqual(['update', 'move', 'removeById']);
+  history.sort((left, right) => left.text.localeCompare(right.text));
+  expect(history.canRedo()).toBe(false);
+  expect(keyedList.getIds(history.getSnapshot())).toStrictEqual(['t4', 't3', 't2', 't1']);
+});
+
+test('shows that the depth of the history is limited', () => {
+  const history = keyedList.createHistory(generateList(), { depth: 2 });
+
+  history.removeById('t1');
+  history.removeById('t2');
+  history.removeById('t3');
+  history.undo();
+  history.undo();
+
+  expect(history.canUndo()).toBe(false);
+  expect(keyedList.getIds(history.getSnapshot())).toStrictEqual(['t2', 't3']);
+});
+
+test('shows that rapid edits of the same id are coalesced', () => {
+  const now = jest.spyOn(Date, 'now');
+  const history = keyedList.createHistory(generateList(), { coalesceWithin: 500 });
+
+  now.mockReturnValue(1000);
+  history.update({ id: 't1', text: 'W' });
+  now.mockReturnValue(1300);
+  history.update({ id: 't1', text: 'Wr' });
+  now.mockReturnValue(1700);
+  history.update({ id: 't1', text: 'Wri' });
+  history.update({ id: 't2', text: 'T' });
+  now.mockReturnValue(5000);
+  history.update({ id: 't2', text: 'Te' });
+
+  expect(history.undoSteps().map(step => step.ids)).toStrictEqual([['t2'], ['t2'], ['t1']]);
+  history.undo();
+  history.undo();
+  history.undo();
+  expect(keyedList.getById(history.getSnapshot(), 't1')!.text).toBe('Write');
+});
+
+test('shows that a checkpoint can be restored', () => {
+  const history = keyedList.createHistory(generateList());
+
+  history.update({ id: 't1', text: 'Saved' });
+  history.checkpoint('saved');
+  const saved = history.getSnapshot();
+  history.removeById('t2');
+  history.swap('t1', 't3');
+
+  history.restore('saved');
+  expect(history.getSnapshot()).toBe(saved);
+  expect(history.redoSteps().map(step => step.operation)).toStrictEqual(['removeById', 'swap']);
+
+  history.undo();
+  history.restore('saved');
+  expect(history.getSnapshot()).toBe(saved);
+
+  expect(() => history.restore('unknown')).toThrow(keyedList.KeyedListError);
+  expect(() => history.restore('constructor')).toThrow('There is no checkpoint named "constructor"');
+  history.clear();
+  expect(history.canUndo()).toBe(false);
+  expect(() => history.restore('saved')).toThrow(keyedList.KeyedListError);
+});
+
+test('shows that the ids of a step can be given', () => {
+  const history = keyedList.createHistory(generateList());
+
+  history.swap('t1', 't3');
+  history.apply('rename', list => keyedList.update(list, { id: 't2', text: 'Check' }), [ 't2' ]);
+  history.apply('reverse', list => keyedList.reorder(list, [ 't1', 't2', 't3' ]));
+
+  expect(history.undoSteps().map(({ operation, ids }) => ({ operation, ids }))).toStrictEqual([
+    { operation: 'reverse', ids: ['t1', 't2'] },
+    { operation: 'rename', ids: ['t2'] },
+    { operation: 'swap', ids: ['t1', 't3'] }
+  ]);
+});
@@ -0,0 +1,98 @@
+import keyedList from '../index';
+
+interface Post {
+  id: string;
+  authorId: string;
+  slug: string;
+  tags?: string;
+}
+
+const generatePosts = (): Post[] => (
+  [
+    { id: 'p1', authorId: 'u1', slug: 'hello' },
+    { id: 'p2', authorId: 'u2', slug: 'world' },
+    { id: 'p3', authorId: 'u1', slug: 'again' }
+  ]
+);
+
+const indexedList = () => {
+  let list = keyedList.fromArray(generatePosts());
+  list = keyedList.addIndex(list, 'byAuthor', { key: 'authorId' });
+  list = keyedList.addIndex(list, 'bySlug', { key: 'slug', unique: true });
+  return list;
+};
+
+test('shows that elements can be looked up by an index in list order', () => {
+  const list = indexedList();
+
+  expect(keyedList.lookupIds(list, 'byAuthor', 'u1')).toStrictEqual(['p1', 'p3']);
+  expect(keyedList.lookup(list, 'bySlug', 'world')).toStrictEqual([list.elements.p2]);
+  expect(keyedList.lookup(list, 'byAuthor', 'nobody')).toStrictEqual([]);
+  expect(() => keyedList.lookup(list, 'byTitle', 'x')).toThrow(keyedList.KeyedListError);
+
+  const sorted = keyedList.sort(list, (l, r) => l.slug.localeCompare(r.slug));
+  expect(keyedList.lookupIds(sorted, 'byAuthor', 'u1')).toStrictEqual(['p3', 'p1']);
+  expect(keyedList.lookupIds(keyedList.move(list, 'p1', 2), 'byAuthor', 'u1')).toStrictEqual(['p3', 'p1']);
+});
+
+test('shows that the indexes are kept up to date by the writes', () => {
+  let list = indexedList();
+  list = keyedList.append(list, { id: 'p4', authorId: 'u2', slug: 'more' });
+  list = keyedList.insert(list, { id: 'p0', authorId: 'u2', slug: 'first' });
+  expect(keyedList.lookupIds(list, 'byAuthor', 'u2')).toStrictEqual(['p0', 'p2', 'p4']);
+
+  list = keyedList.update(list, { id: 'p2', authorId: 'u1' });
+  expect(keyedList.lookupIds(list, 'byAuthor', 'u1')).toStrictEqual(['p1', 'p2', 'p3']);
+  expect(keyedList.lookupIds(list, 'byAuthor', 'u2')).toStrictEqual(['p0', 'p4']);
+
+  list = keyedList.removeById(list, 'p1');
+  expect(keyedList.lookupIds(list, 'byAuthor', 'u1')).toStrictEqual(['p2', 'p3']);
+  expect(keyedList.lookup(list, 'bySlug', 'hello')).toStrictEqual([]);
+
+  list = keyedList.withMutations(list, draft => {
+    draft.removeById('p0');
+    draft.update({ id: 'p4', slug: 'hello' });
+  });
+  expect(keyedList.lookupIds(list, 'byAuthor', 'u2')).toStrictEqual(['p4']);
+  expect(keyedList.lookupIds(list, 'bySlug', 'hello')).toStrictEqual(['p4']);
+
+  const { list: reconciled } = keyedList.reconcile(list, [{ id: 'p9', authorId: 'u3', slug: 'fresh' }]);
+  expect(keyedList.lookupIds(reconciled, 'byAuthor', 'u3')).toStrictEqual(['p9']);
+  expect(keyedList.lookupIds(reconciled, 'byAuthor', 'u1')).toStrictEqual([]);
+  expect(keyedList.lookupIds(keyedList.applyPatch(list, keyedList.diff(list, reconciled)), 'byAuthor', 'u3')).toStrictEqual(['p9']);
+});
+
+test('shows that computed index keys are supported and missing values are left out', () => {
+  let list = keyedList.fromArray<Post>([
+    { id: 'p1', authorId: 'u1', slug: 'hello', tags: 'news' },
+    { id: 'p2', authorId: 'u2', slug: 'world' }
+  ]);
+  list = keyedList.addIndex(list, 'byInitial', { key: post => post.slug.charAt(0) });
+  list = keyedList.addIndex(list, 'byTags', { key: 'tags' });
+
+  expect(keyedList.lookupIds(list, 'byInitial', 'w')).toStrictEqual(['p2']);
+  expect(keyedList.lookupIds(list, 'byTags', 'news')).toStrictEqual(['p1']);
+  expect(Object.keys(list.indexes!.byTags.entries)).toStrictEqual(['news']);
+});
+
+test('shows that a unique index rejects a second element with the same value', () => {
+  const list = indexedList();
+
+  expect(() => keyedList.append(list, { id: 'p4', authorId: 'u2', slug: 'hello' })).toThrow(keyedList.IndexConstraintError);
+  expect(() => keyedList.update(list, { id: 'p2', slug: 'again' })).toThrow(keyedList.IndexConstraintError);
+  expect(() => keyedList.addIndex(list, 'oneByAuthor', { key: 'authorId', unique: true })).toThrow(keyedList.IndexConstraintError);
+
+  const swapped = keyedList.withMutations(list, draft => {
+    draft.update({ id: 'p1', slug: 'world' });
+    draft.update({ id: 'p2', slug: 'hello' });
+  });
+  expect(keyedList.lookupIds(swapped, 'bySlug', 'hello')).toStrictEqual(['p2']);
+});
+
+test('shows that an index can be removed', () => {
+  const list = indexedList();
+  const withoutSlugs = keyedList.removeIndex(list, 'bySlug');
+
+  expect(Object.keys(withoutSlugs.indexes!)).toStrictEqual(['byAuthor']);
+  expect(keyedList.removeIndex(keyedList.removeIndex(withoutSlugs, 'byAuthor'), 'byAuthor')).toStrictEqual(keyedList.fromArray(generatePosts()));
+});
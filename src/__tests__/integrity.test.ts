@@ -0,0 +1,72 @@
+import keyedList from '../index';
+
+interface Post {
+  id: string;
+  title: string;
+}
+
+const corrupted = (): keyedList.IdKeyedList<Post> => ({
+  keys: ['1', '2', '1', '3', '4'],
+  elements: {
+    '1': { id: '1', title: 'One' },
+    '2': { id: '2', title: 'Two' },
+    '4': { id: '5', title: 'Five' },
+    '6': { id: '6', title: 'Six' }
+  }
+});
+
+test('shows that a valid list has no problems', () => {
+  const list = keyedList.addIndex(keyedList.fromArray<Post>([{ id: '1', title: 'One' }]), 'byTitle', { key: 'title' });
+
+  expect(keyedList.validate(list)).toStrictEqual([]);
+  expect(keyedList.repair(list)).toBe(list);
+});
+
+test('shows that the problems are reported with their ids', () => {
+  expect(keyedList.validate(corrupted()).map(({ type, id }) => [type, id])).toStrictEqual([
+    ['duplicateKey', '1'],
+    ['missingElement', '3'],
+    ['keyMismatch', '4'],
+    ['orphanedElement', '6']
+  ]);
+  expect(keyedList.validate({ keys: [null], elements: {} })[0].type).toBe('invalidKey');
+  expect(keyedList.validate('posts')).toStrictEqual([{ type: 'invalidShape', message: 'The value is not a keyed list' }]);
+});
+
+test('shows that the order and the indexes are checked', () => {
+  const byTitle = (left: Post, right: Post) => left.title.localeCompare(right.title);
+  const sorted = keyedList.keepSorted(keyedList.fromArray<Post>([{ id: '1', title: 'B' }, { id: '2', title: 'A' }]), byTitle);
+  const unsorted = { ...sorted, keys: ['1', '2'] };
+  expect(keyedList.validate(unsorted).map(p => p.type)).toStrictEqual(['unsorted']);
+  expect(keyedList.getIds(keyedList.repair(unsorted))).toStrictEqual(['2', '1']);
+
+  const indexed = keyedList.addIndex(sorted, 'byTitle', { key: 'title' });
+  const stale = { ...indexed, elements: { ...indexed.elements, '1': { id: '1', title: 'C' } } };
+  expect(keyedList.validate(stale)).toStrictEqual([
+    { type: 'staleIndex', index: 'byTitle', message: 'The index "byTitle" does not match the elements' }
+  ]);
+  expect(keyedList.lookupIds(keyedList.repair(stale), 'byTitle', 'C')).toStrictEqual(['1']);
+});
+
+test('shows that repair fixes the problems by the policy', () => {
+  const list = corrupted();
+
+  const repaired = keyedList.repair(list);
+  expect(keyedList.getIds(repaired)).toStrictEqual(['1', '2']);
+  expect(keyedList.validate(repaired)).toStrictEqual([]);
+
+  const kept = keyedList.repair(list, { duplicates: 'keepLast', mismatched: 'rekey', orphans: 'append' });
+  expect(keyedList.getIds(kept)).toStrictEqual(['2', '1', '5', '6']);
+  expect(keyedList.getById(kept, '5')!.title).toBe('Five');
+  expect(keyedList.validate(kept)).toStrictEqual([]);
+
+  expect(() => keyedList.repair(({ keys: 'none' } as unknown) as keyedList.IdKeyedList<Post>)).toThrow(keyedList.InvalidPayloadError);
+});
+
+test('shows that isKeyedList checks the shape', () => {
+  expect(keyedList.isKeyedList(keyedList.fromArray([{ id: '1' }]))).toBe(true);
+  expect(keyedList.isKeyedList(JSON.parse('{ "keys": [], "elements": {} }'))).toBe(true);
+  expect(keyedList.isKeyedList({ keys: [], elements: [] })).toBe(false);
+  expect(keyedList.isKeyedList({ keys: [] })).toBe(false);
+  expect(keyedList.isKeyedList(null)).toBe(false);
+});
@@ -0,0 +1,88 @@
+import keyedList from '../index';
+
+const createSchemas = () => {
+  const user = keyedList.createEntity('users');
+  const comment = keyedList.createEntity('comments', { relations: { author: user } });
+  const post = keyedList.createEntity('posts', { relations: { author: user, comments: [comment] } });
+  return { user, comment, post };
+};
+
+const generatePayload = () => [
+  {
+    id: 'p1',
+    title: 'Hello',
+    author: { id: 'u1', name: 'Riley' },
+    comments: [
+      { id: 'c1', text: 'Nice', author: { id: 'u2', name: 'Sam' } },
+      { id: 'c2', text: 'Thanks', author: { id: 'u1', avatar: 'riley.png' } }
+    ]
+  },
+  { id: 'p2', title: 'Again', author: 'u2', comments: [] }
+];
+
+test('shows that a nested payload is split into lists by entity type', () => {
+  const { post } = createSchemas();
+
+  const { result, entities } = keyedList.normalize(generatePayload(), [post]);
+  expect(result).toStrictEqual(['p1', 'p2']);
+  expect(keyedList.toArray(entities.posts!)).toStrictEqual([
+    { id: 'p1', title: 'Hello', author: 'u1', comments: ['c1', 'c2'] },
+    { id: 'p2', title: 'Again', author: 'u2', comments: [] }
+  ]);
+  expect(keyedList.getIds(entities.comments!)).toStrictEqual(['c1', 'c2']);
+  expect(keyedList.getById(entities.comments!, 'c1')!.author).toBe('u2');
+  // The repeated occurrences are merged
+  expect(keyedList.toArray(entities.users!)).toStrictEqual([
+    { id: 'u1', name: 'Riley', avatar: 'riley.png' },
+    { id: 'u2', name: 'Sam' }
+  ]);
+});
+
+test('shows that the entities are merged into the current lists', () => {
+  const { post } = createSchemas();
+  const { entities } = keyedList.normalize(generatePayload(), [post]);
+
+  const sam = keyedList.getById(entities.users!, 'u2');
+  const next = keyedList.normalize({ id: 'p3', title: 'New', author: { id: 'u1', name: 'Riley R.' } }, post, entities);
+  expect(next.result).toBe('p3');
+  expect(keyedList.getIds(next.entities.posts!)).toStrictEqual(['p1', 'p2', 'p3']);
+  expect(keyedList.getById(next.entities.users!, 'u1')).toStrictEqual({ id: 'u1', name: 'Riley R.', avatar: 'riley.png' });
+  expect(keyedList.getById(next.entities.users!, 'u2')).toBe(sam);
+  expect(next.entities.comments).toBe(entities.comments);
+
+  const byHandle = keyedList.createEntity('handles', { keyBy: 'handle' });
+  const handles = keyedList.normalize([{ handle: '@riley' }], [byHandle]).entities.handles!;
+  expect(keyedList.getById(handles, '@riley')).toStrictEqual({ handle: '@riley' });
+  expect(keyedList.getIds(keyedList.append(handles, { handle: '@sam' }))).toStrictEqual(['@riley', '@sam']);
+});
+
+test('shows that denormalize puts the entities back in place', () => {
+  const { post } = createSchemas();
+  const { result, entities } = keyedList.normalize(generatePayload(), [post]);
+
+  const posts = keyedList.denormalize(result, [post], entities);
+  expect(posts[0]).toStrictEqual({
+    id: 'p1',
+    title: 'Hello',
+    author: { id: 'u1', name: 'Riley', avatar: 'riley.png' },
+    comments: [
+      { id: 'c1', text: 'Nice', author: { id: 'u2', name: 'Sam' } },
+      { id: 'c2', text: 'Thanks', author: { id: 'u1', name: 'Riley', avatar: 'riley.png' } }
+    ]
+  });
+  expect(posts[0].author).toBe(posts[0].comments[1].author);
+
+  expect(keyedList.denormalize(['p2', 'missing'], [post], entities).map(p => p.id)).toStrictEqual(['p2']);
+  expect(keyedList.denormalize('missing', post, entities)).toBeUndefined();
+});
+
+test('shows that the cyclic schemas are kept as cycles', () => {
+  const { user, post } = createSchemas();
+  user.relations.posts = [post];
+
+  const { entities } = keyedList.normalize({ id: 'u1', name: 'Riley', posts: [{ id: 'p1', author: 'u1' }] }, user);
+  expect(keyedList.getById(entities.users!, 'u1')).toStrictEqual({ id: 'u1', name: 'Riley', posts: ['p1'] });
+
+  const riley = keyedList.denormalize('u1', user, entities);
+  expect(riley.posts[0].author).toBe(riley);
+});
@@ -0,0 +1,71 @@
+import keyedList from '../index';
+
+interface Post {
+  id: string;
+  title: string;
+}
+
+const generateList = () => keyedList.fromArray<Post>([
+  { id: 'p1', title: 'One' },
+  { id: 'p2', title: 'Two' }
+]);
+
+test('shows that the layers are applied on top of the base', () => {
+  const base = generateList();
+  let posts = keyedList.createOptimisticList(base);
+  expect(posts.visible).toBe(base);
+
+  posts = keyedList.addLayer(posts, 'rename', layer => layer.update({ id: 'p1', title: 'Renamed' }));
+  posts = keyedList.addLayer(posts, 'add', layer => layer.append({ id: 'p3', title: 'Three' }));
+  posts = keyedList.addLayer(posts, 'delete', [{ type: 'remove', id: 'p2' }]);
+
+  expect(posts.base).toBe(base);
+  expect(posts.layers.map(layer => layer.name)).toStrictEqual(['rename', 'add', 'delete']);
+  expect(keyedList.toArray(posts.visible)).toStrictEqual([
+    { id: 'p1', title: 'Renamed' },
+    { id: 'p3', title: 'Three' }
+  ]);
+  expect(() => keyedList.addLayer(posts, 'add', [])).toThrow(keyedList.KeyedListError);
+});
+
+test('shows that the layers are committed and rolled back out of order', () => {
+  let posts = keyedList.createOptimisticList(generateList());
+  posts = keyedList.addLayer(posts, 'rename', layer => layer.update({ id: 'p1', title: 'Renamed' }));
+  posts = keyedList.addLayer(posts, 'add', layer => layer.append({ id: 'p3', title: 'Three' }));
+  posts = keyedList.addLayer(posts, 'retitle', layer => layer.update({ id: 'p3', title: 'Third' }));
+
+  posts = keyedList.commitLayer(posts, 'add');
+  expect(keyedList.getIds(posts.base)).toStrictEqual(['p1', 'p2', 'p3']);
+  expect(keyedList.getById(posts.visible, 'p3')!.title).toBe('Third');
+
+  posts = keyedList.rollbackLayer(posts, 'rename');
+  expect(keyedList.getById(posts.visible, 'p1')!.title).toBe('One');
+  expect(posts.layers.map(layer => layer.name)).toStrictEqual(['retitle']);
+
+  posts = keyedList.rollbackLayer(posts, 'retitle');
+  expect(posts.visible).toBe(posts.base);
+  expect(() => keyedList.commitLayer(posts, 'retitle')).toThrow('There is no layer named "retitle"');
+});
+
+test('shows that a confirmed list replaces the base and the layers are applied again', () => {
+  let posts = keyedList.createOptimisticList(generateList());
+  posts = keyedList.addLayer(posts, 'add', layer => layer.append({ id: 'p3', title: 'Three' }));
+  posts = keyedList.addLayer(posts, 'rename', layer => layer.update({ id: 'p2', title: 'Renamed' }));
+
+  const confirmed = keyedList.fromArray<Post>([
+    { id: 'p2', title: 'Two' },
+    { id: 'p3', title: 'Three (saved)' }
+  ]);
+  posts = keyedList.commitLayer(posts, 'add', confirmed);
+  expect(posts.base).toBe(confirmed);
+  expect(keyedList.toArray(posts.visible)).toStrictEqual([
+    { id: 'p2', title: 'Renamed' },
+    { id: 'p3', title: 'Three (saved)' }
+  ]);
+
+  // The pending append is not duplicated, when the base already has the element
+  posts = keyedList.addLayer(posts, 'again', layer => layer.append({ id: 'p4', title: 'Four' }));
+  posts = keyedList.rebase(posts, keyedList.append(confirmed, { id: 'p4', title: 'Four (saved)' }));
+  expect(keyedList.getIds(posts.visible)).toStrictEqual(['p2', 'p3', 'p4']);
+  expect(keyedList.getById(posts.visible, 'p4')!.title).toBe('Four');
+});
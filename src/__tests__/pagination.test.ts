@@ -0,0 +1,81 @@
+import keyedList from '../index';
+
+interface Item {
+  id: string;
+  label: string;
+}
+
+const generateItems = (): Item[] => (
+  ['a', 'b', 'c', 'd', 'e'].map(id => ({ id, label: id.toUpperCase() }))
+);
+
+test('shows that a list can be sliced into a keyed list', () => {
+  const list = keyedList.fromArray(generateItems());
+  const middle = keyedList.slice(list, 1, 3);
+
+  expect(keyedList.getIds(middle)).toStrictEqual(['b', 'c']);
+  expect(Object.keys(middle.elements)).toStrictEqual(['b', 'c']);
+  expect(keyedList.getById(middle, 'b')).toBe(keyedList.getById(list, 'b'));
+  expect(keyedList.getIds(keyedList.slice(list, -2))).toStrictEqual(['d', 'e']);
+  expect(keyedList.slice(list)).toBe(list);
+  expect(keyedList.getCount(keyedList.slice(list, 4, 1))).toBe(0);
+});
+
+test('shows that a slice has its own indexes', () => {
+  const list = keyedList.addIndex(keyedList.fromArray(generateItems()), 'byLabel', { key: 'label' });
+  const head = keyedList.slice(list, 0, 2);
+
+  expect(keyedList.lookupIds(head, 'byLabel', 'B')).toStrictEqual(['b']);
+  expect(keyedList.lookupIds(head, 'byLabel', 'D')).toStrictEqual([]);
+});
+
+test('shows that a list can be paged forward with cursors', () => {
+  const list = keyedList.fromArray(generateItems());
+
+  const first = keyedList.pageAfter(list, undefined, 2);
+  expect(keyedList.getIds(first.list)).toStrictEqual(['a', 'b']);
+  expect(first).toMatchObject({ startCursor: 'a', endCursor: 'b', hasMore: true });
+
+  const second = keyedList.pageAfter(list, first.endCursor, 2);
+  expect(keyedList.getIds(second.list)).toStrictEqual(['c', 'd']);
+  expect(second.hasMore).toBe(true);
+
+  const last = keyedList.pageAfter(list, second.endCursor, 2);
+  expect(keyedList.getIds(last.list)).toStrictEqual(['e']);
+  expect(last.hasMore).toBe(false);
+
+  const empty = keyedList.pageAfter(list, 'e', 2);
+  expect(empty).toMatchObject({ startCursor: undefined, endCursor: undefined, hasMore: false });
+  expect(() => keyedList.pageAfter(list, 'x', 2)).toThrow(keyedList.MissingKeyError);
+});
+
+test('shows that a list can be paged backward with cursors', () => {
+  const list = keyedList.fromArray(generateItems());
+
+  const last = keyedList.pageBefore(list, undefined, 2);
+  expect(keyedList.getIds(last.list)).toStrictEqual(['d', 'e']);
+  expect(last).toMatchObject({ startCursor: 'd', endCursor: 'e', hasMore: true });
+
+  const previous = keyedList.pageBefore(list, last.startCursor, 2);
+  expect(keyedList.getIds(previous.list)).toStrictEqual(['b', 'c']);
+
+  const first = keyedList.pageBefore(list, previous.startCursor, 2);
+  expect(keyedList.getIds(first.list)).toStrictEqual(['a']);
+  expect(first.hasMore).toBe(false);
+});
+
+test('shows that fetched pages are added without duplicates', () => {
+  const list = keyedList.fromArray(generateItems().slice(0, 3));
+  const fresh = { id: 'c', label: 'fresh' };
+
+  const appended = keyedList.appendPage(list, [fresh, { id: 'd', label: 'D' }, { id: 'e', label: 'E' }]);
+  expect(keyedList.getIds(appended)).toStrictEqual(['a', 'b', 'c', 'd', 'e']);
+  expect(keyedList.getById(appended, 'c')).toBe(fresh);
+
+  const ignored = keyedList.appendPage(list, [fresh], { onDuplicate: 'ignore' });
+  expect(ignored).toBe(list);
+
+  const prepended = keyedList.prependPage(list, [{ id: 'y', label: 'Y' }, { id: 'z', label: 'Z' }, { id: 'a', label: 'A' }]);
+  expect(keyedList.getIds(prepended)).toStrictEqual(['y', 'z', 'a', 'b', 'c']);
+  expect(keyedList.appendPage(list, [])).toBe(list);
+});
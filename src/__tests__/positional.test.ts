@@ -0,0 +1,93 @@
+import keyedList from '../index';
+
+interface Card {
+  id: string;
+  title: string;
+}
+
+const generateCards = (): Card[] => (
+  [
+    { id: 'a', title: 'Design' },
+    { id: 'b', title: 'Build' },
+    { id: 'c', title: 'Ship' }
+  ]
+);
+
+const newCard: Card = { id: 'n', title: 'Review' };
+
+test('shows that an element can be inserted at an index', () => {
+  const list = keyedList.fromArray(generateCards());
+
+  expect(keyedList.getIds(keyedList.insertAt(list, 1, newCard))).toStrictEqual(['a', 'n', 'b', 'c']);
+  expect(keyedList.getIds(keyedList.insertAt(list, 0, newCard))).toStrictEqual(['n', 'a', 'b', 'c']);
+  expect(keyedList.getIds(keyedList.insertAt(list, 99, newCard))).toStrictEqual(['a', 'b', 'c', 'n']);
+  expect(keyedList.getIds(keyedList.insertAt(list, -5, newCard))).toStrictEqual(['n', 'a', 'b', 'c']);
+  expect(keyedList.getById(keyedList.insertAt(list, 1, newCard), 'n')).toBe(newCard);
+  expect(keyedList.getIds(list)).toStrictEqual(['a', 'b', 'c']);
+});
+
+test('shows that an element can be inserted after or before an id', () => {
+  const list = keyedList.fromArray(generateCards());
+
+  expect(keyedList.getIds(keyedList.insertAfter(list, 'c', newCard))).toStrictEqual(['a', 'b', 'c', 'n']);
+  expect(keyedList.getIds(keyedList.insertAfter(list, 'a', newCard))).toStrictEqual(['a', 'n', 'b', 'c']);
+  expect(keyedList.getIds(keyedList.insertBefore(list, 'a', newCard))).toStrictEqual(['n', 'a', 'b', 'c']);
+  expect(() => keyedList.insertBefore(list, 'x', newCard)).toThrow(keyedList.MissingKeyError);
+});
+
+test('shows that an element can be moved to a new index', () => {
+  const list = keyedList.fromArray(generateCards());
+
+  expect(keyedList.getIds(keyedList.move(list, 'c', 0))).toStrictEqual(['c', 'a', 'b']);
+  expect(keyedList.getIds(keyedList.move(list, 'a', 2))).toStrictEqual(['b', 'c', 'a']);
+  expect(keyedList.getIds(keyedList.move(list, 'a', 10))).toStrictEqual(['b', 'c', 'a']);
+  expect(keyedList.move(list, 'b', 1)).toBe(list);
+  expect(() => keyedList.move(list, 'x', 1)).toThrow(keyedList.MissingKeyError);
+});
+
+test('shows that two elements can be swapped', () => {
+  const list = keyedList.fromArray(generateCards());
+
+  const swapped = keyedList.swap(list, 'a', 'c');
+  expect(keyedList.getIds(swapped)).toStrictEqual(['c', 'b', 'a']);
+  expect(swapped.elements).toBe(list.elements);
+  expect(keyedList.swap(list, 'b', 'b')).toBe(list);
+  expect(() => keyedList.swap(list, 'a', 'x')).toThrow(keyedList.MissingKeyError);
+});
+
+test('shows that a complete new order can be applied, when it is a permutation', () => {
+  const list = keyedList.fromArray(generateCards());
+
+  expect(keyedList.getIds(keyedList.reorder(list, ['b', 'c', 'a']))).toStrictEqual(['b', 'c', 'a']);
+  expect(() => keyedList.reorder(list, ['b', 'c'])).toThrow(keyedList.InvalidOrderError);
+  expect(() => keyedList.reorder(list, ['b', 'c', 'x'])).toThrow(keyedList.InvalidOrderError);
+  expect(() => keyedList.reorder(list, ['b', 'b', 'a'])).toThrow(keyedList.InvalidOrderError);
+  expect(() => keyedList.reorder(list, ['b', 'b', 'a'])).toThrow(keyedList.KeyedListError);
+});
+
+test('shows that the ids, which are also names of object properties, can be reordered', () => {
+  const list = keyedList.fromArray([ { id: 'constructor', title: 'Plan' }, { id: 'b', title: 'Build' } ]);
+
+  expect(keyedList.getIds(keyedList.reorder(list, ['b', 'constructor']))).toStrictEqual(['b', 'constructor']);
+});
+
+test('shows that positional edits work with composite keys', () => {
+  const list = keyedList.fromArray([ { lane: 'todo', n: 1 }, { lane: 'todo', n: 2 } ], x => [ x.lane, x.n ]);
+
+  const moved = keyedList.move(list, ['todo', 2], 0);
+  expect(keyedList.getIds(moved)).toStrictEqual([ ['todo', 2], ['todo', 1] ]);
+
+  const inserted = keyedList.insertAfter(moved, ['todo', 2], { lane: 'todo', n: 3 });
+  expect(keyedList.getIds(inserted)).toStrictEqual([ ['todo', 2], ['todo', 3], ['todo', 1] ]);
+});
+
+test('shows that inserting an existing id follows the duplicate policy', () => {
+  const list = keyedList.fromArray(generateCards());
+  const duplicate = { id: 'c', title: 'Release' };
+
+  expect(() => keyedList.insertAt(list, 0, duplicate)).toThrow(keyedList.DuplicateKeyError);
+  expect(keyedList.getIds(keyedList.insertAt(list, 0, duplicate, { onDuplicate: 'move' }))).toStrictEqual(['c', 'a', 'b']);
+  expect(keyedList.getIds(keyedList.insertAfter(list, 'a', duplicate, { onDuplicate: 'move' }))).toStrictEqual(['a', 'c', 'b']);
+  expect(keyedList.getIds(keyedList.insertAt(list, 0, duplicate, { onDuplicate: 'replace' }))).toStrictEqual(['a', 'b', 'c']);
+  expect(keyedList.insertBefore(list, 'a', duplicate, { onDuplicate: 'ignore' })).toBe(list);
+});
@@ -0,0 +1,48 @@
+import keyedList from '../index';
+
+interface Person {
+  id: string;
+  name: string;
+  age: number;
+}
+
+const generateList = () => keyedList.fromArray<Person>([
+  { id: '100', name: 'Peter', age: 42 },
+  { id: '211', name: 'John', age: 17 },
+  { id: '331', name: 'Steve', age: 35 }
+]);
+
+test('shows that ids can be checked and located', () => {
+  const list = generateList();
+
+  expect(keyedList.has(list, '211')).toBe(true);
+  expect(keyedList.has(list, '999')).toBe(false);
+  expect(keyedList.has(list, 'constructor')).toBe(false);
+  expect(keyedList.indexOfId(list, '331')).toBe(2);
+  expect(keyedList.indexOfId(list, '999')).toBe(-1);
+});
+
+test('shows that elements can be searched', () => {
+  const list = generateList();
+
+  expect(keyedList.find(list, p => p.name === 'Steve')).toBe(keyedList.getById(list, '331'));
+  expect(keyedList.find(list, p => p.age > 99)).toBeUndefined();
+  expect(keyedList.findIndex(list, p => p.age < 18)).toBe(1);
+  expect(keyedList.findIndex(list, (p, id) => id === '999')).toBe(-1);
+  expect(keyedList.some(list, p => p.age < 18)).toBe(true);
+  expect(keyedList.some(list, p => p.age > 99)).toBe(false);
+  expect(keyedList.every(list, p => p.age > 0)).toBe(true);
+  expect(keyedList.every(list, p => p.age > 18)).toBe(false);
+  expect(keyedList.every(keyedList.fromArray<Person>([]), () => false)).toBe(true);
+});
+
+test('shows that the elements can be reduced and iterated in order', () => {
+  const list = generateList();
+  const visited: string[] = [];
+
+  expect(keyedList.reduce(list, (sum, p) => sum + p.age, 0)).toBe(94);
+  expect(keyedList.reduce(list, (names, p, id, index) => [...names, `${ index }:${ id }:${ p.name }`], [] as string[]))
+    .toStrictEqual(['0:100:Peter', '1:211:John', '2:331:Steve']);
+  keyedList.forEach(list, (p, id) => visited.push(id));
+  expect(visited).toStrictEqual(['100', '211', '331']);
+});
@@ -0,0 +1,119 @@
+import keyedList from '../index';
+
+interface Task {
+  id: string;
+  title: string;
+  done: boolean;
+}
+
+const generateTasks = (): Task[] => (
+  [
+    { id: 't1', title: 'Write', done: false },
+    { id: 't2', title: 'Test', done: false },
+    { id: 't3', title: 'Ship', done: false }
+  ]
+);
+
+test('shows that new ids are added, changed ones updated and missing ones removed', () => {
+  const list = keyedList.fromArray(generateTasks());
+  const incoming = [
+    { id: 't1', title: 'Write', done: false },
+    { id: 't2', title: 'Test', done: true },
+    { id: 't4', title: 'Celebrate', done: false }
+  ];
+
+  const result = keyedList.reconcile(list, incoming);
+
+  expect(keyedList.getIds(result.list)).toStrictEqual(['t1', 't2', 't4']);
+  expect(result.added).toStrictEqual(['t4']);
+  expect(result.updated).toStrictEqual(['t2']);
+  expect(result.removed).toStrictEqual(['t3']);
+  expect(result.moved).toStrictEqual([]);
+  expect(keyedList.getById(result.list, 't2')?.done).toBe(true);
+});
+
+test('shows that unchanged elements keep their identity', () => {
+  const list = keyedList.fromArray(generateTasks());
+  const incoming = generateTasks();
+  incoming[2].done = true;
+
+  const result = keyedList.reconcile(list, incoming);
+
+  expect(keyedList.getById(result.list, 't1')).toBe(keyedList.getById(list, 't1'));
+  expect(keyedList.getById(result.list, 't2')).toBe(keyedList.getById(list, 't2'));
+  expect(keyedList.getById(result.list, 't3')).toBe(incoming[2]);
+});
+
+test('shows that the same list is given back, when nothing has changed', () => {
+  const list = keyedList.fromArray(generateTasks());
+
+  const result = keyedList.reconcile(list, generateTasks());
+
+  expect(result.list).toBe(list);
+  expect(result).toStrictEqual({ list, added: [], updated: [], removed: [], moved: [] });
+});
+
+test('shows that the order of the incoming array is followed, and the moves are reported', () => {
+  const list = keyedList.fromArray(generateTasks());
+  const [ t1, t2, t3 ] = generateTasks();
+
+  const result = keyedList.reconcile(list, [ t3, t1, t2 ]);
+
+  expect(keyedList.getIds(result.list)).toStrictEqual(['t3', 't1', 't2']);
+  expect(result.moved).toStrictEqual(['t3']);
+  expect(result.updated).toStrictEqual([]);
+});
+
+test('shows that the local order can be kept and the missing elements can be kept', () => {
+  const list = keyedList.fromArray(generateTasks());
+  const [ t1, , t3 ] = generateTasks();
+  const t4 = { id: 't4', title: 'Celebrate', done: false };
+
+  const result = keyedList.reconcile(list, [ t4, t3, t1 ], { order: 'local', keepMissing: true });
+
+  expect(keyedList.getIds(result.list)).toStrictEqual(['t1', 't2', 't3', 't4']);
+  expect(result.added).toStrictEqual(['t4']);
+  expect(result.removed).toStrictEqual([]);
+  expect(result.moved).toStrictEqual([]);
+  expect(keyedList.getById(result.list, 't2')).toBe(keyedList.getById(list, 't2'));
+});
+
+test('shows that the equality can be customized', () => {
+  const list = keyedList.fromArray(generateTasks());
+  const incoming = generateTasks().map(t => ({ ...t, title: t.title.toUpperCase() }));
+
+  const result = keyedList.reconcile(list, incoming, {
+    isEqual: (current, next) => current.done === next.done
+  });
+
+  expect(result.list).toBe(list);
+  expect(keyedList.getById(result.list, 't1')?.title).toBe('Write');
+});
+
+test('shows that duplicate ids in the incoming array are rejected', () => {
+  const list = keyedList.fromArray(generateTasks());
+  const [ t1 ] = generateTasks();
+
+  expect(() => keyedList.reconcile(list, [ t1, t1 ])).toThrow(keyedList.DuplicateKeyError);
+});
+
+test('shows that the ids, which are also names of object properties, are added', () => {
+  const list = keyedList.fromArray(generateTasks());
+  const incoming = [ ...generateTasks(), { id: 'constructor', title: 'Build', done: false }, { id: 'toString', title: 'Print', done: false } ];
+
+  const result = keyedList.reconcile(list, incoming);
+
+  expect(result.added).toStrictEqual(['constructor', 'toString']);
+  expect(result.updated).toStrictEqual([]);
+  expect(keyedList.getById(result.list, 'toString')?.title).toBe('Print');
+});
+
+test('shows that the ids, which are also names of object properties, are moved', () => {
+  const tasks = [ { id: 'toString', title: 'Print', done: false }, ...generateTasks().slice(0, 2) ];
+  const list = keyedList.fromArray(tasks);
+
+  const result = keyedList.reconcile(list, [ tasks[1], tasks[2], tasks[0] ]);
+
+  expect(result.moved).toStrictEqual(['toString']);
+  expect(keyedList.getIds(result.list)).toStrictEqual(['t1', 't2', 'toString']);
+});
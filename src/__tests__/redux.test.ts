@@ -0,0 +1,107 @@
+import keyedList from '../index';
+
+interface Post {
+  id: string;
+  title: string;
+  votes: number;
+}
+
+interface State {
+  posts: keyedList.IdKeyedList<Post>;
+  drafts: keyedList.IdKeyedList<Post>;
+}
+
+const generatePosts = (): Post[] => (
+  [
+    { id: 'p1', title: 'Hello', votes: 2 },
+    { id: 'p2', title: 'World', votes: 5 }
+  ]
+);
+
+const postActions = keyedList.createActions<Post>('posts');
+const draftActions = keyedList.createActions<Post>('drafts');
+const posts = keyedList.createReducer<Post>('posts', { initial: generatePosts() });
+const drafts = keyedList.createReducer<Post>('drafts');
+
+const rootReducer = (state: Partial<State> = {}, action: { type: string }): State => ({
+  posts: posts(state.posts, action),
+  drafts: drafts(state.drafts, action)
+});
+
+test('shows that the action types are namespaced', () => {
+  expect(postActions.add(generatePosts()[0])).toStrictEqual({ type: 'posts/add', payload: { element: generatePosts()[0], options: undefined } });
+  expect(postActions.types.sortBy).toBe('posts/sortBy');
+  expect(draftActions.remove('p1')).toStrictEqual({ type: 'drafts/remove', payload: 'p1' });
+
+  let state = rootReducer(undefined, { type: '@@init' });
+  expect(keyedList.getIds(state.posts)).toStrictEqual(['p1', 'p2']);
+  expect(keyedList.getCount(state.drafts)).toBe(0);
+
+  state = rootReducer(state, draftActions.add({ id: 'd1', title: 'Draft', votes: 0 }));
+  expect(keyedList.getIds(state.drafts)).toStrictEqual(['d1']);
+  expect(keyedList.getIds(state.posts)).toStrictEqual(['p1', 'p2']);
+});
+
+test('shows that the reducer handles every operation', () => {
+  let state = posts(undefined, { type: '@@init' });
+  const initial = state;
+
+  expect(posts(state, { type: 'unknown' })).toBe(state);
+  state = posts(state, postActions.addMany([{ id: 'p3', title: 'Again', votes: 1 }, { id: 'p1', title: 'Dup', votes: 0 }], { onDuplicate: 'ignore' }));
+  expect(keyedList.getIds(state)).toStrictEqual(['p1', 'p2', 'p3']);
+
+  state = posts(state, postActions.update({ id: 'p3', votes: 9 }));
+  state = posts(state, postActions.upsert({ id: 'p4', title: 'New', votes: 3 }));
+  state = posts(state, postActions.upsert({ id: 'p1', title: 'Replaced', votes: 2 }));
+  expect(keyedList.getById(state, 'p1')!.title).toBe('Replaced');
+
+  state = posts(state, postActions.sortBy('votes', 'desc'));
+  expect(keyedList.getIds(state)).toStrictEqual(['p3', 'p2', 'p4', 'p1']);
+
+  state = posts(state, postActions.move('p1', 0));
+  expect(posts(state, postActions.move('missing', 0))).toBe(state);
+  state = posts(state, postActions.remove('p3'));
+  expect(keyedList.getIds(state)).toStrictEqual(['p1', 'p2', 'p4']);
+
+  state = posts(state, postActions.reset(generatePosts()));
+  expect(keyedList.getIds(state)).toStrictEqual(['p1', 'p2']);
+  expect(keyedList.getById(state, 'p2')).toBe(keyedList.getById(initial, 'p2'));
+});
+
+test('shows that the reducer keeps the key selector of its options', () => {
+  const byTitle = keyedList.createReducer<Post>('byTitle', { initial: generatePosts(), keyBy: 'title' });
+  const titleActions = keyedList.createActions<Post>('byTitle');
+  const state = byTitle(byTitle(undefined, { type: '@@init' }), titleActions.add({ id: 'p3', title: 'Again', votes: 1 }));
+
+  expect(keyedList.getIds(state)).toStrictEqual(['Hello', 'World', 'Again']);
+  expect(keyedList.getById(state, 'Again')!.id).toBe('p3');
+});
+
+test('shows that the selectors are giving back stable references', () => {
+  const selectors = keyedList.createSelectors((state: State) => state.posts);
+  let state = rootReducer(undefined, { type: '@@init' });
+
+  const all = selectors.selectAll(state);
+  const ids = selectors.selectIds(state);
+  expect(all).toStrictEqual(generatePosts());
+  expect(selectors.selectById(state, 'p2')).toBe(all[1]);
+  expect(selectors.selectById(state, 'constructor')).toBeUndefined();
+  expect(selectors.selectCount(state)).toBe(2);
+
+  state = rootReducer(state, draftActions.add({ id: 'd1', title: 'Draft', votes: 0 }));
+  expect(selectors.selectAll(state)).toBe(all);
+  expect(selectors.selectIds(state)).toBe(ids);
+
+  state = rootReducer(state, postActions.reset(generatePosts()));
+  expect(selectors.selectAll(state)).toBe(all);
+
+  state = rootReducer(state, postActions.update({ id: 'p1', votes: 7 }));
+  expect(selectors.selectAll(state)).not.toBe(all);
+  expect(selectors.selectIds(state)).toBe(ids);
+
+  state = rootReducer(state, postActions.sortBy('votes', 'desc'));
+  expect(selectors.selectIds(state)).toStrictEqual(['p1', 'p2']);
+  state = rootReducer(state, postActions.sortBy('votes'));
+  expect(selectors.selectIds(state)).toStrictEqual(['p2', 'p1']);
+  expect(selectors.selectAll(state).map(post => post.id)).toStrictEqual(['p2', 'p1']);
+});
@@ -0,0 +1,84 @@
+import keyedList from '../index';
+
+interface Post {
+  id: string;
+  title: string;
+  createdAt: Date;
+  reactions: Map<string, number>;
+}
+
+class Money {
+  constructor(public readonly cents: number) {}
+  toJSON() { return this.cents; }
+}
+
+interface Order {
+  code: string;
+  total: Money;
+}
+
+const generatePosts = (): Post[] => (
+  [
+    { id: 'p1', title: 'Hello', createdAt: new Date('2020-01-02T03:04:05.000Z'), reactions: new Map([['like', 2]]) },
+    { id: 'p2', title: 'World', createdAt: new Date('2021-06-07T08:09:10.000Z'), reactions: new Map() }
+  ]
+);
+
+test('shows that a list survives a round trip with revivers and replacers', () => {
+  const list = keyedList.fromArray(generatePosts());
+  const json = keyedList.serialize(list, { replacers: { reactions: keyedList.replaceMap } });
+
+  expect(JSON.parse(json)).toMatchObject({ version: keyedList.SERIALIZATION_VERSION, keys: ['p1', 'p2'] });
+
+  const restored = keyedList.deserialize<Post>(json, {
+    revivers: { createdAt: keyedList.reviveDate, reactions: keyedList.reviveMap }
+  });
+  expect(restored).toStrictEqual(list);
+  expect(keyedList.getById(restored, 'p1')!.createdAt).toBeInstanceOf(Date);
+  expect(keyedList.getById(restored, 'p1')!.reactions.get('like')).toBe(2);
+});
+
+test('shows that class instances and key selectors can be restored', () => {
+  const list = keyedList.fromArray([{ code: 'A-1', total: new Money(1250) }], 'code');
+  const restored = keyedList.deserialize<Order, string>(keyedList.serialize(list), {
+    revivers: { total: (cents: number) => new Money(cents) },
+    indexes: { byTotal: { key: order => order.total.cents } }
+  });
+
+  expect(restored.keyBy).toBe('code');
+  expect(keyedList.getById(restored, 'A-1')!.total).toBeInstanceOf(Money);
+  expect(keyedList.lookupIds(restored, 'byTotal', 1250)).toStrictEqual(['A-1']);
+});
+
+test('shows that older payloads are migrated', () => {
+  const untagged = JSON.stringify({ keys: ['1'], elements: { 1: { id: '1', name: 'Peter' } } });
+  expect(keyedList.getIds(keyedList.deserialize(untagged))).toStrictEqual(['1']);
+
+  const legacy = { version: -1, ids: ['1'], byId: { 1: { id: '1', name: 'Peter' } } };
+  expect(() => keyedList.deserialize(legacy)).toThrow(keyedList.InvalidPayloadError);
+
+  const migrate = jest.fn((payload: any) => ({ version: 1, keys: payload.ids, elements: payload.byId }));
+  const migrated = keyedList.deserialize(legacy, { migrate });
+  expect(migrate).toHaveBeenCalledWith(legacy, -1);
+  expect(keyedList.getById(migrated, '1')).toStrictEqual({ id: '1', name: 'Peter' });
+});
+
+test('shows that inconsistent payloads are rejected', () => {
+  const valid = { version: 1, keys: ['1', '2'], elements: { 1: { id: '1' }, 2: { id: '2' } } };
+  const rejects = (payload: any) => expect(() => keyedList.deserialize(payload)).toThrow(keyedList.InvalidPayloadError);
+
+  expect(keyedList.getIds(keyedList.deserialize(valid))).toStrictEqual(['1', '2']);
+  rejects('{ not json');
+  rejects('[]');
+  rejects({ ...valid, version: 2 });
+  rejects({ ...valid, keys: '1,2' });
+  rejects({ ...valid, keys: ['1', '2', '1'] });
+  rejects({ ...valid, keys: ['1', '2', '3'] });
+  rejects({ ...valid, keys: ['1'] });
+  rejects({ ...valid, elements: { 1: { id: '1' }, 2: { id: '3' } } });
+  rejects({ ...valid, keyBy: 42 });
+  rejects({ version: 1, keys: [null], elements: { null: { id: null } } });
+  rejects({ version: 1, keys: [true], elements: { true: { id: true } } });
+  rejects({ version: 1, keys: [{ a: 1 }], elements: { '{"a":1}': { id: { a: 1 } } } });
+  rejects({ version: 1, keys: [['a', null]], elements: { '["a",null]': { id: ['a', null] } } });
+});
@@ -0,0 +1,73 @@
+import keyedList from '../index';
+
+interface Post {
+  id: string;
+  title: string;
+  votes?: number;
+}
+
+const generateLeft = () => keyedList.fromArray<Post>([
+  { id: '1', title: 'One', votes: 1 },
+  { id: '2', title: 'Two' },
+  { id: '3', title: 'Three' }
+]);
+
+const generateRight = () => keyedList.fromArray<Post>([
+  { id: '4', title: 'Four' },
+  { id: '3', title: 'Third' },
+  { id: '1', title: 'First' }
+]);
+
+test('shows that union resolves the conflicts and keeps the ordering list', () => {
+  const left = generateLeft();
+  const right = generateRight();
+
+  const keepLeft = keyedList.union(left, right);
+  expect(keyedList.getIds(keepLeft)).toStrictEqual(['1', '2', '3', '4']);
+  expect(keyedList.getById(keepLeft, '1')).toBe(keyedList.getById(left, '1'));
+
+  const keepRight = keyedList.concat(left, right, { onConflict: 'right', order: 'right' });
+  expect(keyedList.getIds(keepRight)).toStrictEqual(['4', '3', '1', '2']);
+  expect(keyedList.getById(keepRight, '3')!.title).toBe('Third');
+
+  const merged = keyedList.union(left, right, { onConflict: 'merge' });
+  expect(keyedList.getById(merged, '1')).toStrictEqual({ id: '1', title: 'First', votes: 1 });
+
+  const custom = keyedList.union(left, right, {
+    onConflict: (l, r, id) => ({ id, title: `${ l.title }/${ r.title }` })
+  });
+  expect(keyedList.getById(custom, '3')!.title).toBe('Three/Third');
+
+  expect(keyedList.union(left, keyedList.fromArray<Post>([]))).toBe(left);
+});
+
+test('shows that intersection, difference and symmetricDifference keep the right ids', () => {
+  const left = generateLeft();
+  const right = generateRight();
+
+  expect(keyedList.getIds(keyedList.intersection(left, right))).toStrictEqual(['1', '3']);
+  expect(keyedList.getIds(keyedList.intersection(left, right, { order: 'right' }))).toStrictEqual(['3', '1']);
+  expect(keyedList.getById(keyedList.intersection(left, right, { onConflict: 'right' }), '1')!.title).toBe('First');
+
+  expect(keyedList.getIds(keyedList.difference(left, right))).toStrictEqual(['2']);
+  expect(keyedList.getIds(keyedList.difference(right, left))).toStrictEqual(['4']);
+  expect(keyedList.difference(left, keyedList.fromArray<Post>([]))).toBe(left);
+
+  expect(keyedList.getIds(keyedList.symmetricDifference(left, right))).toStrictEqual(['2', '4']);
+  expect(keyedList.getIds(keyedList.symmetricDifference(left, right, { order: 'right' }))).toStrictEqual(['4', '2']);
+});
+
+test('shows that the result can be sorted, and keeps the settings of the left list', () => {
+  const byTitle = (l: Post, r: Post) => l.title.localeCompare(r.title);
+  const left = keyedList.addIndex(generateLeft(), 'byTitle', { key: 'title' });
+  const right = generateRight();
+
+  const sorted = keyedList.union(left, right, { onConflict: 'right', order: byTitle });
+  expect(keyedList.getIds(sorted)).toStrictEqual(['1', '4', '3', '2']);
+  expect(keyedList.lookupIds(sorted, 'byTitle', 'Third')).toStrictEqual(['3']);
+  expect(keyedList.lookupIds(sorted, 'byTitle', 'Three')).toStrictEqual([]);
+
+  const keptSorted = keyedList.union(keyedList.keepSorted(generateLeft(), byTitle), right);
+  expect(keyedList.getIds(keptSorted)).toStrictEqual(['4', '1', '3', '2']);
+  expect(keyedList.getIds(keyedList.append(keptSorted, { id: '5', title: 'Five' }))).toStrictEqual(['5', '4', '1', '3', '2']);
+});
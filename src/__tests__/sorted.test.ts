@@ -0,0 +1,73 @@
+import keyedList from '../index';
+
+interface Player {
+  id: string;
+  score: number;
+}
+
+const byScore = (left: Player, right: Player) => right.score - left.score;
+
+const generateLeaderboard = () => keyedList.keepSorted(keyedList.fromArray<Player>([
+  { id: 'a', score: 10 },
+  { id: 'b', score: 30 },
+  { id: 'c', score: 20 }
+]), byScore);
+
+test('shows that a sorted list places the new elements by the comparator', () => {
+  let list = generateLeaderboard();
+  expect(keyedList.getIds(list)).toStrictEqual(['b', 'c', 'a']);
+
+  list = keyedList.append(list, { id: 'd', score: 25 });
+  list = keyedList.insert(list, { id: 'e', score: 5 });
+  list = keyedList.insertAt(list, 0, { id: 'f', score: 20 });
+  expect(keyedList.getIds(list)).toStrictEqual(['b', 'd', 'c', 'f', 'a', 'e']);
+});
+
+test('shows that an updated element is placed again, when its order changes', () => {
+  const list = generateLeaderboard();
+
+  expect(keyedList.getIds(keyedList.update(list, { id: 'a', score: 40 }))).toStrictEqual(['a', 'b', 'c']);
+  expect(keyedList.getIds(keyedList.update(list, { id: 'b', score: 0 }))).toStrictEqual(['c', 'a', 'b']);
+  expect(keyedList.update(list, { id: 'c', score: 20 }).keys).toBe(list.keys);
+  expect(keyedList.getIds(keyedList.append(list, { id: 'a', score: 50 }, { onDuplicate: 'replace' }))).toStrictEqual(['a', 'b', 'c']);
+});
+
+test('shows that the batched and reconciled edits are kept sorted', () => {
+  const list = generateLeaderboard();
+  const batched = keyedList.withMutations(list, draft => {
+    draft.append({ id: 'd', score: 100 });
+    draft.update({ id: 'a', score: 25 });
+  });
+  expect(keyedList.getIds(batched)).toStrictEqual(['d', 'b', 'a', 'c']);
+
+  const { list: reconciled } = keyedList.reconcile(list, [{ id: 'x', score: 1 }, { id: 'b', score: 30 }, { id: 'y', score: 99 }]);
+  expect(keyedList.getIds(reconciled)).toStrictEqual(['y', 'b', 'x']);
+});
+
+test('shows that the elements of a sorted list can not be moved by hand', () => {
+  const list = generateLeaderboard();
+
+  expect(() => keyedList.move(list, 'a', 0)).toThrow(keyedList.InvalidOrderError);
+  expect(() => keyedList.swap(list, 'a', 'b')).toThrow(keyedList.InvalidOrderError);
+  expect(() => keyedList.reorder(list, ['a', 'b', 'c'])).toThrow(keyedList.InvalidOrderError);
+  expect(keyedList.getIds(keyedList.move(keyedList.stopSorting(list), 'a', 0))).toStrictEqual(['a', 'b', 'c']);
+});
+
+test('shows that a sorted list can be queried by a range', () => {
+  let list = generateLeaderboard();
+  list = keyedList.append(list, { id: 'd', score: 20 });
+
+  expect(keyedList.getIds(keyedList.range(list, { score: 25 }, { score: 10 }))).toStrictEqual(['c', 'd', 'a']);
+  expect(keyedList.getIds(keyedList.range(list, { score: 20 }, { score: 20 }))).toStrictEqual(['c', 'd']);
+  expect(keyedList.getIds(keyedList.range(list, undefined, { score: 20 }))).toStrictEqual(['b', 'c', 'd']);
+  expect(keyedList.getIds(keyedList.range(list, { score: 15 }))).toStrictEqual(['a']);
+  expect(keyedList.getCount(keyedList.range(list, { score: 5 }, { score: 50 }))).toBe(0);
+  expect(() => keyedList.range(keyedList.fromArray<Player>([]), { score: 1 })).toThrow(keyedList.KeyedListError);
+});
+
+test('shows that sorting a sorted list changes its comparator', () => {
+  const list = keyedList.sort(generateLeaderboard(), (left, right) => left.score - right.score);
+
+  expect(keyedList.getIds(list)).toStrictEqual(['a', 'c', 'b']);
+  expect(keyedList.getIds(keyedList.append(list, { id: 'd', score: 15 }))).toStrictEqual(['a', 'd', 'c', 'b']);
+});
@@ -0,0 +1,110 @@
+import keyedList from '../index';
+
+interface Todo {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+const generateStore = () => keyedList.createListStore(keyedList.fromArray<Todo>([
+  { id: 't1', text: 'Write', done: false },
+  { id: 't2', text: 'Test', done: false },
+  { id: 't3', text: 'Ship', done: false }
+]));
+
+test('shows that the subscribers are notified about the writes', () => {
+  const store = generateStore();
+  const changes: Array<keyedList.KeyedListChange<Todo>> = [];
+  const unsubscribe = store.subscribe(change => changes.push(change));
+  const initial = store.getSnapshot();
+
+  store.append({ id: 't4', text: 'Celebrate', done: false });
+  store.update({ id: 't1', done: true });
+  store.move('t3', 0);
+  store.removeById('t2');
+  store.removeById('missing');
+  store.sort((left, right) => left.text.localeCompare(right.text));
+
+  expect(changes.map(({ operation, ids }) => ({ operation, ids }))).toStrictEqual([
+    { operation: 'append', ids: ['t4'] },
+    { operation: 'update', ids: ['t1'] },
+    { operation: 'move', ids: ['t3'] },
+    { operation: 'removeById', ids: ['t2'] },
+    { operation: 'sort', ids: ['t4'] }
+  ]);
+  expect(changes[0].previous).toBe(initial);
+  expect(changes[4].next).toBe(store.getSnapshot());
+  expect(keyedList.getIds(store.getSnapshot())).toStrictEqual(['t4', 't3', 't1']);
+
+  unsubscribe();
+  store.removeById('t1');
+  expect(changes.length).toBe(5);
+});
+
+test('shows that the snapshot is stable between the writes', () => {
+  const store = generateStore();
+  const snapshot = store.getSnapshot();
+
+  expect(store.getSnapshot()).toBe(snapshot);
+  store.withMutations(() => undefined);
+  expect(store.getSnapshot()).toBe(snapshot);
+  expect(() => store.move('missing', 0)).toThrow(keyedList.MissingKeyError);
+  expect(store.getSnapshot()).toBe(snapshot);
+});
+
+test('shows that the subscribers of an id are only notified about that element', () => {
+  const store = generateStore();
+  const seen: Array<Todo | undefined> = [];
+  const unsubscribe = store.subscribeToId('t2', todo => seen.push(todo));
+
+  store.update({ id: 't1', done: true });
+  store.move('t2', 0);
+  store.update({ id: 't2', done: true });
+  store.withMutations(draft => {
+    draft.removeById('t2');
+    draft.append({ id: 't5', text: 'More', done: false });
+  });
+  store.append({ id: 't2', text: 'Again', done: false });
+  unsubscribe();
+  store.removeById('t2');
+
+  expect(seen).toStrictEqual([
+    { id: 't2', text: 'Test', done: true },
+    undefined,
+    { id: 't2', text: 'Again', done: false }
+  ]);
+});
+
+test('shows that the generic writes are telling the changed and moved ids', () => {
+  const store = generateStore();
+  const changes: Array<keyedList.KeyedListChange<Todo>> = [];
+  store.subscribe(change => changes.push(change));
+
+  store.withMutations(draft => {
+    draft.move('t1', 2);
+    draft.update({ id: 't2', done: true });
+  });
+  store.set(keyedList.fromArray<Todo>([]));
+
+  expect(changes.map(({ operation, ids }) => ({ operation, ids }))).toStrictEqual([
+    { operation: 'withMutations', ids: ['t2', 't1'] },
+    { operation: 'set', ids: ['t2', 't3', 't1'] }
+  ]);
+});
+
+test('shows that the writes of an element are telling its key', () => {
+  const todos: Todo[] = [ { id: 't1', text: 'Write', done: false } ];
+  const store = keyedList.createListStore(keyedList.fromArray(todos, 'text'));
+  const changes: Array<keyedList.KeyedListChange<Todo>> = [];
+  store.subscribe(change => changes.push(change));
+
+  store.insertAt(0, { id: 't2', text: 'Test', done: false });
+  store.update({ text: 'Write', done: true });
+  store.removeById('Test');
+
+  expect(changes.map(({ operation, ids }) => ({ operation, ids }))).toStrictEqual([
+    { operation: 'insertAt', ids: ['Test'] },
+    { operation: 'update', ids: ['Write'] },
+    { operation: 'removeById', ids: ['Test'] }
+  ]);
+});
@@ -0,0 +1,80 @@
+import keyedList from '../index';
+
+interface Person {
+  id: string;
+  name: string;
+  age: number;
+}
+
+const generatePersons = (): Person[] => (
+  [
+    { id: '100', name: 'Peter', age: 42 },
+    { id: '211', name: 'John', age: 17 },
+    { id: '331', name: 'Steve', age: 35 }
+  ]
+);
+
+test('shows that filterList and reject are giving back keyed lists', () => {
+  const list = keyedList.fromArray(generatePersons());
+  const adults = keyedList.filterList(list, p => p.age >= 18);
+
+  expect(keyedList.getIds(adults)).toStrictEqual(['100', '331']);
+  expect(Object.keys(adults.elements)).toStrictEqual(['100', '331']);
+  expect(keyedList.getById(adults, '100')).toBe(keyedList.getById(list, '100'));
+  expect(keyedList.getIds(keyedList.reject(list, p => p.age >= 18))).toStrictEqual(['211']);
+  expect(keyedList.filterList(list, () => true)).toBe(list);
+  expect(keyedList.getIds(keyedList.filterList(list, (p, id, index) => index > 0 && id !== '331'))).toStrictEqual(['211']);
+});
+
+test('shows that filterList keeps the indexes up to date', () => {
+  const list = keyedList.addIndex(keyedList.fromArray(generatePersons()), 'byAge', { key: p => p.age >= 18 ? 'adult' : 'minor' });
+  const adults = keyedList.filterList(list, p => p.age >= 18);
+
+  expect(keyedList.lookupIds(adults, 'byAge', 'adult')).toStrictEqual(['100', '331']);
+  expect(keyedList.lookupIds(adults, 'byAge', 'minor')).toStrictEqual([]);
+});
+
+test('shows that mapValues keeps the ids and changes the element type', () => {
+  const list = keyedList.fromArray(generatePersons(), 'id');
+  const labels = keyedList.mapValues(list, (p, id, index) => ({ id, label: `${ index }. ${ p.name }` }), 'id');
+
+  expect(keyedList.getIds(labels)).toStrictEqual(['100', '211', '331']);
+  expect(keyedList.getById(labels, '211')).toStrictEqual({ id: '211', label: '1. John' });
+  expect(labels.keyBy).toBe('id');
+  expect(keyedList.getIds(keyedList.append(labels, { id: '411', label: 'Emily' }))).toStrictEqual(['100', '211', '331', '411']);
+  expect(keyedList.mapValues(keyedList.fromArray(generatePersons()), p => ({ id: p.id, name: p.name })).keyBy).toBeUndefined();
+});
+
+test('shows that mapValues rejects the new elements with other keys', () => {
+  const list = keyedList.fromArray(generatePersons());
+
+  expect(() => keyedList.mapValues(list, p => p.name)).toThrow(keyedList.KeyedListError);
+  expect(() => keyedList.mapValues(list, p => ({ id: p.name }))).toThrow('The new element of "100" has the key "Peter"');
+  expect(() => keyedList.mapValues(list, p => ({ code: p.id }), 'code')).not.toThrow();
+  expect(() => keyedList.mapValues(list, p => ({ code: p.name }), x => x.code)).toThrow(keyedList.KeyedListError);
+});
+
+test('shows that mapValues keys the new elements by the given selector', () => {
+  const list = keyedList.fromArray(generatePersons(), p => p.name);
+  const ages = keyedList.mapValues(list, p => ({ person: p.name, age: p.age }), 'person');
+  const appended = keyedList.append(ages, { person: 'Emily', age: 8 });
+
+  expect(keyedList.getIds(appended)).toStrictEqual(['Peter', 'John', 'Steve', 'Emily']);
+  expect(keyedList.getById(appended, 'Emily')).toStrictEqual({ person: 'Emily', age: 8 });
+  expect(keyedList.KeyedList.from(list).mapValues(p => ({ person: p.name }), x => x.person).getIds())
+    .toStrictEqual(['Peter', 'John', 'Steve']);
+  expect(() => keyedList.mapValues(list, p => ({ person: p.name }))).toThrow(keyedList.KeyedListError);
+});
+
+test('shows that flatMap collects the new elements into a list', () => {
+  const orders = keyedList.fromArray([
+    { id: 'o1', lines: [{ sku: 'a', qty: 1 }, { sku: 'b', qty: 2 }] },
+    { id: 'o2', lines: [{ sku: 'c', qty: 3 }] }
+  ]);
+  const lines = keyedList.flatMap(orders, order => order.lines, 'sku');
+
+  expect(keyedList.getIds(lines)).toStrictEqual(['a', 'b', 'c']);
+  expect(keyedList.getById(lines, 'c')).toStrictEqual({ sku: 'c', qty: 3 });
+  expect(() => keyedList.flatMap(orders, order => order.lines.map(() => ({ id: 'same' }))))
+    .toThrow(keyedList.DuplicateKeyError);
+});
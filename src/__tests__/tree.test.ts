@@ -0,0 +1,101 @@
+import keyedList from '../index';
+
+interface Folder {
+  id: string;
+  parentId: string | null;
+  name: string;
+}
+
+const generateList = () => keyedList.fromArray<Folder>([
+  { id: 'home', parentId: null, name: 'Home' },
+  { id: 'pictures', parentId: 'home', name: 'Pictures' },
+  { id: 'photos', parentId: 'pictures', name: 'Photos' },
+  { id: 'documents', parentId: 'home', name: 'Documents' },
+  { id: 'tmp', parentId: null, name: 'Temp' }
+]);
+
+const idsOf = (elements: Folder[]) => elements.map(x => x.id);
+
+test('shows that the children, the ancestors and the descendants are found in order', () => {
+  const list = generateList();
+
+  expect(idsOf(keyedList.getChildren(list, 'home'))).toStrictEqual(['pictures', 'documents']);
+  expect(idsOf(keyedList.getChildren(list, null))).toStrictEqual(['home', 'tmp']);
+  expect(idsOf(keyedList.getChildren(list, 'photos'))).toStrictEqual([]);
+  expect(idsOf(keyedList.getAncestors(list, 'photos'))).toStrictEqual(['pictures', 'home']);
+  expect(idsOf(keyedList.getAncestors(list, 'home'))).toStrictEqual([]);
+  expect(idsOf(keyedList.getDescendants(list, 'home'))).toStrictEqual(['pictures', 'photos', 'documents']);
+});
+
+test('shows that the tree is visited depth-first and breadth-first', () => {
+  const list = generateList();
+
+  expect(keyedList.depthFirst(list).map(({ id, depth }) => [id, depth])).toStrictEqual([
+    ['home', 0], ['pictures', 1], ['photos', 2], ['documents', 1], ['tmp', 0]
+  ]);
+  expect(keyedList.breadthFirst(list).map(({ id, depth }) => [id, depth])).toStrictEqual([
+    ['home', 0], ['tmp', 0], ['pictures', 1], ['documents', 1], ['photos', 2]
+  ]);
+});
+
+test('shows that a subtree is moved under a new parent', () => {
+  const list = generateList();
+
+  const moved = keyedList.moveSubtree(list, 'pictures', 'tmp');
+  expect(keyedList.getById(moved, 'pictures')!.parentId).toBe('tmp');
+  expect(idsOf(keyedList.getDescendants(moved, 'tmp'))).toStrictEqual(['pictures', 'photos']);
+
+  const first = keyedList.moveSubtree(list, 'documents', 'home', { index: 0 });
+  expect(idsOf(keyedList.getChildren(first, 'home'))).toStrictEqual(['documents', 'pictures']);
+
+  const root = keyedList.moveSubtree(list, 'photos', null, { index: 1 });
+  expect(idsOf(keyedList.getChildren(root, null))).toStrictEqual(['home', 'photos', 'tmp']);
+
+  expect(keyedList.moveSubtree(list, 'photos', 'pictures')).toBe(list);
+  expect(() => keyedList.moveSubtree(list, 'home', 'photos')).toThrow(keyedList.CycleError);
+  expect(() => keyedList.moveSubtree(list, 'home', 'missing')).toThrow(keyedList.MissingKeyError);
+});
+
+test('shows that a subtree is removed with its descendants', () => {
+  const list = keyedList.addIndex(generateList(), 'byParent', { key: 'parentId' });
+
+  const removed = keyedList.removeSubtree(list, 'pictures');
+  expect(keyedList.getIds(removed)).toStrictEqual(['home', 'documents', 'tmp']);
+  expect(idsOf(keyedList.lookup(removed, 'byParent', 'home'))).toStrictEqual(['documents']);
+
+  expect(keyedList.removeSubtree(list, 'missing')).toBe(list);
+  expect(() => keyedList.removeSubtree(list, 'missing', { strict: true })).toThrow(keyedList.MissingKeyError);
+});
+
+test('shows that the nested nodes are converted back and forth', () => {
+  const list = generateList();
+
+  const nested = keyedList.toNested(list);
+  expect(nested.map(node => node.id)).toStrictEqual(['home', 'tmp']);
+  expect(nested[0].children.map(node => node.id)).toStrictEqual(['pictures', 'documents']);
+  expect(nested[0].children[0].children[0].children).toStrictEqual([]);
+
+  const flat = keyedList.fromNested<Folder>(nested);
+  expect(keyedList.toArray(flat)).toStrictEqual(keyedList.depthFirst(list).map(entry => entry.element));
+
+  const replies = keyedList.fromNested<{ key: number, parent: number | null }, number>(
+    [{ key: 1, replies: [{ key: 2 }] }],
+    { keyBy: 'key', parentKey: 'parent', childrenKey: 'replies' }
+  );
+  expect(keyedList.toArray(replies)).toStrictEqual([{ key: 1, parent: null }, { key: 2, parent: 1 }]);
+  expect(() => keyedList.fromNested<Folder>([{ id: 'a', children: [{ id: 'a' }] }])).toThrow(keyedList.DuplicateKeyError);
+});
+
+test('shows that the orphans and the cycles are reported', () => {
+  const orphan = keyedList.append(generateList(), { id: 'lost', parentId: 'gone', name: 'Lost' });
+  expect(() => keyedList.validateTree(orphan)).toThrow(keyedList.OrphanError);
+  expect(() => keyedList.toNested(orphan)).toThrow('The parent "gone" of the key "lost" is not in the list');
+
+  const cycle = keyedList.update(generateList(), { id: 'home', parentId: 'photos' });
+  expect(() => keyedList.validateTree(cycle)).toThrow(keyedList.CycleError);
+  expect(() => keyedList.depthFirst(cycle)).toThrow(keyedList.CycleError);
+  expect(() => keyedList.getAncestors(cycle, 'photos')).toThrow(keyedList.CycleError);
+  expect(() => keyedList.getDescendants(cycle, 'home')).toThrow(keyedList.CycleError);
+
+  expect(() => keyedList.validateTree(generateList())).not.toThrow();
+});
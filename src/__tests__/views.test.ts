@@ -0,0 +1,74 @@
+import keyedList from '../index';
+
+interface Post {
+  id: string;
+  title: string;
+  date: number;
+}
+
+const byDate = (left: Post, right: Post) => left.date - right.date;
+
+const generateList = () => keyedList.fromArray<Post>([
+  { id: 'p1', title: 'Hello', date: 3 },
+  { id: 'p2', title: 'Bye', date: 1 },
+  { id: 'p3', title: 'Hello again', date: 2 },
+  { id: 'p4', title: 'Other', date: 2 }
+]);
+
+test('shows that the view is filtered and sorted', () => {
+  const view = keyedList.createView<Post>({ filter: post => post.title.startsWith('Hello'), sortBy: byDate });
+  const list = generateList();
+
+  const visible = view(list);
+  expect(keyedList.getIds(visible)).toStrictEqual(['p3', 'p1']);
+  expect(view(list)).toBe(visible);
+  expect(keyedList.getIds(keyedList.createView<Post>({ sortBy: byDate })(list))).toStrictEqual(['p2', 'p3', 'p4', 'p1']);
+  expect(keyedList.getIds(keyedList.createView<Post>({ filter: post => post.date > 1 })(list))).toStrictEqual(['p1', 'p3', 'p4']);
+});
+
+test('shows that only the changed elements are checked again', () => {
+  const filter = jest.fn((post: Post) => post.title.startsWith('Hello'));
+  const sortBy = jest.fn(byDate);
+  const view = keyedList.createView<Post>({ filter, sortBy });
+  let list = generateList();
+  view(list);
+  filter.mockClear();
+  sortBy.mockClear();
+
+  list = keyedList.append(list, { id: 'p5', title: 'Hello there', date: 0 });
+  expect(keyedList.getIds(view(list))).toStrictEqual(['p5', 'p3', 'p1']);
+  expect(filter.mock.calls.map(([post]) => post.id)).toEqual(['p5']);
+  expect(sortBy.mock.calls.length).toBeLessThanOrEqual(2);
+
+  filter.mockClear();
+  list = keyedList.update(list, { id: 'p1', date: -1 });
+  expect(keyedList.getIds(view(list))).toStrictEqual(['p1', 'p5', 'p3']);
+  expect(filter.mock.calls.map(([post]) => post.id)).toEqual(['p1']);
+
+  list = keyedList.removeById(list, 'p5');
+  list = keyedList.update(list, { id: 'p4', title: 'Hello at last' });
+  expect(keyedList.getIds(view(list))).toStrictEqual(['p1', 'p3', 'p4']);
+});
+
+test('shows that the previous view is kept, when nothing visible has changed', () => {
+  const view = keyedList.createView<Post>({ filter: post => post.title.startsWith('Hello'), sortBy: byDate });
+  const list = generateList();
+  const visible = view(list);
+
+  expect(view(keyedList.update(list, { id: 'p2', title: 'Bye bye' }))).toBe(visible);
+  expect(view(keyedList.removeById(list, 'p4'))).toBe(visible);
+  expect(view({ ...list, keys: [...list.keys] })).toBe(visible);
+  expect(view(keyedList.update(list, { id: 'p3', title: 'Hello there' }))).not.toBe(visible);
+});
+
+test('shows that the equal elements are in the order of the source', () => {
+  const view = keyedList.createView<Post>({ sortBy: byDate });
+  let list = generateList();
+  view(list);
+
+  list = keyedList.move(list, 'p4', 0);
+  expect(keyedList.getIds(view(list))).toStrictEqual(['p2', 'p4', 'p3', 'p1']);
+  list = keyedList.update(list, { id: 'p3', title: 'Changed' });
+  expect(keyedList.getIds(view(list))).toStrictEqual(['p2', 'p4', 'p3', 'p1']);
+  expect(keyedList.getIds(view(list))).toStrictEqual(keyedList.getIds(keyedList.createView<Post>({ sortBy: byDate })(list)));
+});
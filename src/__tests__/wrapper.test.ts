@@ -0,0 +1,61 @@
+import keyedList from '../index';
+
+const { KeyedList } = keyedList;
+
+interface Task {
+  id: string;
+  title: string;
+  priority: number;
+}
+
+const generateTasks = (): Task[] => (
+  [
+    { id: 't1', title: 'Plan', priority: 2 },
+    { id: 't2', title: 'Build', priority: 3 },
+    { id: 't3', title: 'Test', priority: 1 }
+  ]
+);
+
+test('shows that the wrapper methods can be chained', () => {
+  const tasks = KeyedList.fromArray(generateTasks())
+    .append({ id: 't4', title: 'Ship', priority: 0 })
+    .update({ id: 't1', priority: 5 })
+    .filter(task => task.priority > 0)
+    .sort((left, right) => right.priority - left.priority);
+
+  expect(tasks.getIds()).toStrictEqual(['t1', 't2', 't3']);
+  expect(tasks.size).toBe(3);
+  expect(tasks.has('t4')).toBe(false);
+  expect(tasks.getFirst()).toStrictEqual({ id: 't1', title: 'Plan', priority: 5 });
+});
+
+test('shows that the wrapper is immutable and keeps itself when nothing changes', () => {
+  const tasks = KeyedList.fromArray(generateTasks());
+  const moved = tasks.move('t3', 0);
+
+  expect(tasks.getIds()).toStrictEqual(['t1', 't2', 't3']);
+  expect(moved.getIds()).toStrictEqual(['t3', 't1', 't2']);
+  expect(tasks.removeById('missing')).toBe(tasks);
+  expect(tasks.filter(() => true)).toBe(tasks);
+  expect(tasks.move('t1', 0)).toBe(tasks);
+});
+
+test('shows that the wrapper is iterable', () => {
+  const tasks = KeyedList.fromArray(generateTasks(), 'id');
+
+  expect(Array.from(tasks).map(task => task.title)).toStrictEqual(['Plan', 'Build', 'Test']);
+  expect(Array.from(tasks.keys())).toStrictEqual(['t1', 't2', 't3']);
+  expect(Array.from(tasks.values())).toStrictEqual(generateTasks());
+  expect(Array.from(tasks.entries())[1]).toStrictEqual(['t2', generateTasks()[1]]);
+  expect(tasks.map((task, id) => `${ id }:${ task.priority }`)).toStrictEqual(['t1:2', 't2:3', 't3:1']);
+});
+
+test('shows that the wrapper converts to and from the plain shape', () => {
+  const plain = keyedList.fromArray(generateTasks());
+  const tasks = KeyedList.from(plain);
+
+  expect(tasks.toList()).toBe(plain);
+  expect(tasks.toArray()).toStrictEqual(generateTasks());
+  expect(JSON.parse(JSON.stringify(tasks))).toStrictEqual(plain);
+  expect(new KeyedList<Task>().size).toBe(0);
+});
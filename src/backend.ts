@@ -0,0 +1,420 @@
+import { ElementsWithId, IdKeyedList } from './KeyedList';
+import { MissingKeyError } from './errors';
+import { KeyValueType, encodeKey, hasElement, keysEqual } from './keys';
+import { Comparator } from './sorted';
+import { HashTrie, buildTrie, trieForEach, trieGet, trieHas, trieRemove, trieSet } from './trie';
+import { OrderTree, buildOrder, orderAt, orderInsert, orderRank, orderRelabel, orderRemove, orderSearch, orderSize, orderSlice } from './order';
+
+/**
+ * The persistent structures behind a list. The elements and the labels
+ * are addressed by the encoded keys, while the keys are ordered by their
+ * labels. Every write copies only a logarithmic number of nodes, the rest
+ * is shared with the previous version.
+ */
+export interface ListBackend<T, K extends KeyValueType> {
+    readonly elements: HashTrie<T>;
+    readonly labels: HashTrie<number>;
+    readonly order: OrderTree<K>;
+}
+
+/** The properties of a list besides its keys and elements */
+export type ListSettings<T, K extends KeyValueType> = Pick<IdKeyedList<T, K>, 'keyBy' | 'indexes' | 'compareWith'>;
+
+// The labels are integers below 2^52, so the midpoint of any two is exact
+const LABEL_LIMIT = Math.pow(2, 52);
+const FIRST_LABEL = Math.pow(2, 51);
+const SPACING = Math.pow(2, 20);
+// A range of the labels can hold (2 / DENSITY)^i keys, when it is 2^i long
+const DENSITY = 1.3;
+
+const backends = new WeakMap<object, ListBackend<unknown, KeyValueType>>();
+// The materialized keys and elements are shared by the lists with the same tree or trie
+const keyArrays = new WeakMap<object, ReadonlyArray<KeyValueType>>();
+const elementObjects = new WeakMap<object, { readonly [id: string]: unknown }>();
+
+const registered = <T, K extends KeyValueType>(list: IdKeyedList<T, K>): ListBackend<T, K> | undefined =>
+    backends.get(list) as ListBackend<T, K> | undefined;
+
+// The positions are cached by the keys array, which is shared by the lists with the same order
+const positionCache = new WeakMap<ReadonlyArray<KeyValueType>, { [id: string]: number }>();
+
+const positionsOf = (keys: ReadonlyArray<KeyValueType>): { [id: string]: number } => {
+    let positions = positionCache.get(keys);
+    if (!positions) {
+        const computed: { [id: string]: number } = {};
+        keys.forEach((key, i) => {
+            computed[encodeKey(key)] = i;
+        });
+        positionCache.set(keys, computed);
+        positions = computed;
+    }
+    return positions;
+};
+
+const spacedLabels = (count: number): number[] =>
+    Array.from({ length: count }, (_, i) => FIRST_LABEL + i * SPACING);
+
+const keysOf = <T, K extends KeyValueType>(backend: ListBackend<T, K>): ReadonlyArray<K> => {
+    const { order } = backend;
+    if (!order) {
+        return [];
+    }
+    let keys = keyArrays.get(order) as ReadonlyArray<K> | undefined;
+    if (!keys) {
+        keys = orderSlice(order, 0, order.size);
+        keyArrays.set(order, keys);
+    }
+    return keys;
+};
+
+const elementsOf = <T, K extends KeyValueType>(backend: ListBackend<T, K>): { readonly [id: string]: T } => {
+    const trie = backend.elements;
+    if (trie.size === 0) {
+        return {};
+    }
+    let elements = elementObjects.get(trie) as { readonly [id: string]: T } | undefined;
+    if (!elements) {
+        // The elements are added in the order of the list, like by `fromArray`
+        const collected: ElementsWithId<T> = {};
+        keysOf(backend).forEach(key => {
+            const id = encodeKey(key);
+            if (trieHas(trie, id)) {
+                collected[id] = trieGet(trie, id) as T;
+            }
+        });
+        trieForEach(trie, (x, id) => {
+            if (!hasElement(collected, id)) {
+                collected[id] = x;
+            }
+        });
+        elementObjects.set(trie, collected);
+        elements = collected;
+    }
+    return elements;
+};
+
+const settingsOf = <T, K extends KeyValueType>(list: ListSettings<T, K>, changes: ListSettings<T, K>): ListSettings<T, K> => {
+    const merged: ListSettings<T, K> = {
+        keyBy: list.keyBy,
+        indexes: list.indexes,
+        compareWith: list.compareWith,
+        ...changes
+    };
+    const settings: ListSettings<T, K> = {};
+    if (merged.keyBy !== undefined) {
+        settings.keyBy = merged.keyBy;
+    }
+    if (merged.indexes !== undefined) {
+        settings.indexes = merged.indexes;
+    }
+    if (merged.compareWith !== undefined) {
+        settings.compareWith = merged.compareWith;
+    }
+    return settings;
+};
+
+/**
+ * Builds the backend of a list, or gives back the one, which it was made
+ * with. The keys and the elements of a consistent list are remembered, so
+ * the lists made from it are sharing them, until they are changed.
+ */
+export const backendOf = <T, K extends KeyValueType>(list: IdKeyedList<T, K>): ListBackend<T, K> => {
+    const own = registered(list);
+    if (own) {
+        return own;
+    }
+    const { keys, elements } = list;
+    const seen: { [id: string]: boolean } = {};
+    const orderKeys: K[] = [];
+    const orderIds: string[] = [];
+    keys.forEach(key => {
+        const id = encodeKey(key);
+        if (!hasElement(seen, id)) {
+            seen[id] = true;
+            orderKeys.push(key);
+            orderIds.push(id);
+        }
+    });
+    const elementIds = Object.keys(elements);
+    const labels = spacedLabels(orderKeys.length);
+    const backend: ListBackend<T, K> = {
+        elements: buildTrie(elementIds, elementIds.map(id => elements[id] as T)),
+        labels: buildTrie(orderIds, labels),
+        order: buildOrder(orderKeys, labels)
+    };
+    const consistent = orderKeys.length === keys.length
+        && elementIds.length === keys.length
+        && orderIds.every(id => hasElement(elements, id));
+    if (consistent && backend.order) {
+        keyArrays.set(backend.order, keys);
+        elementObjects.set(backend.elements, elements);
+    }
+    return backend;
+};
+
+/**
+ * Makes a list of the backend, with the settings of an other list. The
+ * `keys` and the `elements` are getters, which are materializing them at
+ * the first read, so a list, which is only read by the functions of this
+ * library, never copies them. Settings with an `undefined` value among
+ * the changes are removed.
+ */
+export const withBackend = <T, K extends KeyValueType>(list: ListSettings<T, K>, backend: ListBackend<T, K>
+      , changes: ListSettings<T, K> = {}): IdKeyedList<T, K> => {
+    let keys: ReadonlyArray<K> | undefined;
+    let elements: { readonly [id: string]: T } | undefined;
+    const next = {} as IdKeyedList<T, K>;
+    Object.defineProperty(next, 'keys', {
+        enumerable: true,
+        get: () => keys || (keys = keysOf(backend))
+    });
+    Object.defineProperty(next, 'elements', {
+        enumerable: true,
+        get: () => elements || (elements = elementsOf(backend))
+    });
+    Object.assign(next, settingsOf(list, changes));
+    backends.set(next, backend);
+    return next;
+};
+
+/**
+ * Changes the settings of a list, while its keys and elements are shared.
+ */
+export const withSettings = <T, K extends KeyValueType>(list: IdKeyedList<T, K>, changes: ListSettings<T, K>): IdKeyedList<T, K> =>
+    withBackend(list, backendOf(list), changes);
+
+/**
+ * Gives back a list, which is backed by the persistent structures.
+ */
+export const persistent = <T, K extends KeyValueType>(list: IdKeyedList<T, K>): IdKeyedList<T, K> =>
+    registered(list) ? list : withBackend(list, backendOf(list));
+
+/**
+ * Gets an element of the backend by its encoded key.
+ */
+export const backendElement = <T, K extends KeyValueType>(backend: ListBackend<T, K>, id: string): T | undefined =>
+    trieGet(backend.elements, id);
+
+/**
+ * Tells whether the backend has an element with the encoded key.
+ */
+export const backendHas = <T, K extends KeyValueType>(backend: ListBackend<T, K>, id: string): boolean =>
+    trieHas(backend.elements, id);
+
+/**
+ * Gets an element by its encoded key, without materializing the elements.
+ */
+export const elementOf = <T, K extends KeyValueType>(list: IdKeyedList<T, K>, id: string): T | undefined => {
+    const backend = registered(list);
+    if (backend) {
+        return backendElement(backend, id);
+    }
+    return hasElement(list.elements, id) ? list.elements[id] as T : undefined;
+};
+
+/**
+ * Tells whether the list has an element with the encoded key.
+ */
+export const hasId = <T, K extends KeyValueType>(list: IdKeyedList<T, K>, id: string): boolean => {
+    const backend = registered(list);
+    return backend ? backendHas(backend, id) : hasElement(list.elements, id);
+};
+
+/**
+ * Gets the number of the keys of a list.
+ */
+export const countOf = <T, K extends KeyValueType>(list: IdKeyedList<T, K>): number => {
+    const backend = registered(list);
+    return backend ? orderSize(backend.order) : list.keys.length;
+};
+
+/**
+ * Gets the number of the keys in the backend.
+ */
+export const keyCount = <T, K extends KeyValueType>(backend: ListBackend<T, K>): number =>
+    orderSize(backend.order);
+
+/**
+ * Gets the key at the index, or `undefined`, when the index is out of the list.
+ */
+export const keyAt = <T, K extends KeyValueType>(list: IdKeyedList<T, K>, index: number): K | undefined => {
+    const backend = registered(list);
+    if (!backend) {
+        return index >= 0 ? list.keys[index] : undefined;
+    }
+    const node = index >= 0 ? orderAt(backend.order, index) : undefined;
+    return node && node.key;
+};
+
+/**
+ * Brings an index between 0 and the length, both inclusive.
+ */
+export const clampIndex = (index: number, length: number): number =>
+    Math.min(Math.max(index, 0), length);
+
+/**
+ * Gets the index of a key in the backend, or -1, when it is not in there.
+ */
+export const keyIndex = <T, K extends KeyValueType>(backend: ListBackend<T, K>, key: K): number => {
+    const label = trieGet(backend.labels, encodeKey(key));
+    return label === undefined ? -1 : orderRank(backend.order, label);
+};
+
+/**
+ * Gets the index of an id in the list, or throws a `MissingKeyError`,
+ * when it is not in the list.
+ */
+export const requireIndex = <T, K extends KeyValueType>(list: IdKeyedList<T, K>, id: K): number => {
+    const index = keyIndex(backendOf(list), id);
+    if (index < 0) {
+        throw new MissingKeyError(id);
+    }
+    return index;
+};
+
+/**
+ * Sorts the keys of a list by their positions in it.
+ */
+export const byPosition = <T, K extends KeyValueType>(list: IdKeyedList<T, K>, keys: ReadonlyArray<K>): K[] => {
+    const backend = registered(list);
+    // The labels are ordered the same way as the keys
+    const positionOf = backend
+        ? (key: K) => trieGet(backend.labels, encodeKey(key)) as number
+        : (key: K) => positionsOf(list.keys)[encodeKey(key)];
+    return [ ...keys ].sort((left, right) => positionOf(left) - positionOf(right));
+};
+
+// Gives back the same backend, when the elements have not changed
+const withElements = <T, K extends KeyValueType>(backend: ListBackend<T, K>, elements: HashTrie<T>): ListBackend<T, K> =>
+    elements === backend.elements ? backend : { ...backend, elements };
+
+/**
+ * Adds or replaces an element, while its place is kept. The same backend
+ * is given back, when the element is already there.
+ */
+export const setElement = <T, K extends KeyValueType>(backend: ListBackend<T, K>, id: string, x: T): ListBackend<T, K> =>
+    withElements(backend, trieSet(backend.elements, id, x));
+
+/**
+ * Removes an element, while its key is kept in the order.
+ */
+export const deleteElement = <T, K extends KeyValueType>(backend: ListBackend<T, K>, id: string): ListBackend<T, K> =>
+    withElements(backend, trieRemove(backend.elements, id));
+
+/**
+ * Tells whether the backends have the same keys in the same order, even
+ * when their labels are different.
+ */
+export const sameOrder = <T, K extends KeyValueType>(left: ListBackend<T, K>, right: ListBackend<T, K>): boolean => {
+    if (left.order === right.order) {
+        return true;
+    }
+    const leftKeys = keysOf(left);
+    const rightKeys = keysOf(right);
+    return leftKeys.length === rightKeys.length && leftKeys.every((key, i) => keysEqual(key, rightKeys[i]));
+};
+
+// Spreads the labels of a range evenly, while a free label is left at the index
+const relabel = <T, K extends KeyValueType>(backend: ListBackend<T, K>, index: number, anchor: number): { backend: ListBackend<T, K>; label: number } => {
+    let width = 1;
+    let start = 0;
+    let first = 0;
+    let count = 0;
+    for (let bits = 1; bits <= 52; bits++) {
+        width *= 2;
+        start = Math.floor(anchor / width) * width;
+        first = orderRank(backend.order, start);
+        count = orderRank(backend.order, start + width) - first + 1;
+        if (count <= Math.pow(2 / DENSITY, bits)) {
+            break;
+        }
+    }
+    const gap = Math.floor(width / count);
+    const keys = orderSlice(backend.order, first, first + count - 1);
+    const labels = keys.map((_, i) => start + (first + i < index ? i : i + 1) * gap);
+    let labelTrie = backend.labels;
+    keys.forEach((key, i) => {
+        labelTrie = trieSet(labelTrie, encodeKey(key), labels[i]);
+    });
+    return {
+        backend: { ...backend, labels: labelTrie, order: orderRelabel(backend.order, first, labels) },
+        label: start + (index - first) * gap
+    };
+};
+
+/**
+ * Adds a key at the index, the key must not be in the order yet.
+ */
+export const insertKey = <T, K extends KeyValueType>(backend: ListBackend<T, K>, index: number, key: K): ListBackend<T, K> => {
+    const previous = index > 0 ? orderAt(backend.order, index - 1) : undefined;
+    const next = orderAt(backend.order, index);
+    const low = previous ? previous.label : -1;
+    const high = next ? next.label : LABEL_LIMIT;
+    let current = backend;
+    let label: number;
+    if (!previous && !next) {
+        label = FIRST_LABEL;
+    } else if (!next && low + SPACING < LABEL_LIMIT) {
+        label = low + SPACING;
+    } else if (!previous && high - SPACING >= 0) {
+        label = high - SPACING;
+    } else if (high - low >= 2) {
+        label = Math.floor((low + high) / 2);
+    } else {
+        ({ backend: current, label } = relabel(backend, index, previous ? low : high));
+    }
+    return {
+        ...current,
+        labels: trieSet(current.labels, encodeKey(key), label),
+        order: orderInsert(current.order, label, key)
+    };
+};
+
+/**
+ * Removes a key from the order, while its element is kept.
+ */
+export const removeKey = <T, K extends KeyValueType>(backend: ListBackend<T, K>, key: K): ListBackend<T, K> => {
+    const id = encodeKey(key);
+    const label = trieGet(backend.labels, id);
+    return label === undefined
+        ? backend
+        : { ...backend, labels: trieRemove(backend.labels, id), order: orderRemove(backend.order, label) };
+};
+
+/**
+ * Swaps the places of two keys, which are in the order.
+ */
+export const swapKeys = <T, K extends KeyValueType>(backend: ListBackend<T, K>, left: K, right: K): ListBackend<T, K> => {
+    const leftId = encodeKey(left);
+    const rightId = encodeKey(right);
+    const leftLabel = trieGet(backend.labels, leftId) as number;
+    const rightLabel = trieGet(backend.labels, rightId) as number;
+    return {
+        ...backend,
+        labels: trieSet(trieSet(backend.labels, leftId, rightLabel), rightId, leftLabel),
+        order: orderInsert(orderInsert(backend.order, leftLabel, right), rightLabel, left)
+    };
+};
+
+/**
+ * Gives the keys a new order, while the elements are shared.
+ */
+export const reordered = <T, K extends KeyValueType>(backend: ListBackend<T, K>, keys: ReadonlyArray<K>): ListBackend<T, K> => {
+    const labels = spacedLabels(keys.length);
+    return {
+        elements: backend.elements,
+        labels: buildTrie(keys.map(encodeKey), labels),
+        order: buildOrder(keys, labels)
+    };
+};
+
+/**
+ * Finds the index, where the element belongs in the sorted order. The
+ * index is after the equal elements, or before them, when `before` is set.
+ */
+export const sortedPosition = <T, K extends KeyValueType>(backend: ListBackend<T, K>, compareWith: Comparator<T>
+      , x: T, before: boolean = false): number =>
+    orderSearch(backend.order, key => {
+        const order = compareWith(trieGet(backend.elements, encodeKey(key)) as T, x);
+        return order < 0 || (order === 0 && !before);
+    });
@@ -0,0 +1,174 @@
+import { IdKeyedList, InsertOptions, StrictOptions } from './KeyedList';
+import { DuplicateKeyError, MissingKeyError } from './errors';
+import { DeepReadonly } from './freeze';
+import { shallowEqual } from './equality';
+import { refreshIndexes } from './indexes';
+import { KeyValueType, encodeKey, keyExtractor } from './keys';
+import { requireUnsorted } from './sorted';
+import { backendElement, backendHas, backendOf, clampIndex, deleteElement, insertKey, keyCount, keyIndex, removeKey, sameOrder, setElement, sortedPosition, withBackend } from './backend';
+
+/**
+ * A mutable view of a list, which is only valid inside of `withMutations`.
+ */
+export interface KeyedListDraft<T, K extends KeyValueType = string> {
+    /** Gets an element by its id, with the edits so far */
+    getById(id: K): DeepReadonly<T> | undefined;
+    /** Get element count of the draft */
+    getCount(): number;
+    /** Adds a new element to the end */
+    append(x: T, options?: InsertOptions): void;
+    /** Adds a new element to the beginning */
+    insert(x: T, options?: InsertOptions): void;
+    /** Updates the properties of an element */
+    update(elemProps: Partial<T>, options?: StrictOptions): void;
+    /** Removes an element by its id */
+    removeById(id: K, options?: StrictOptions): void;
+    /** Removes an element */
+    remove(x: T, options?: StrictOptions): void;
+    /** Moves an element to a new index */
+    move(id: K, toIndex: number): void;
+}
+
+// Tells whether the element has all the properties already
+const hasProps = <T>(current: T, props: Partial<T>): boolean =>
+    (Object.keys(props) as Array<keyof T>).every(prop => current[prop] === props[prop]);
+
+/**
+ * Applies many edits to a list at once. The callback gets a mutable
+ * draft, the edits are collected into a single new list, while the
+ * indexes are brought up to date only once. When nothing has changed,
+ * even when the edits were undoing each other, the original list is
+ * given back.
+ *
+ * ```typescript
+ * const newList = keyedList.withMutations(list, draft => {
+ *   serverUpdates.forEach(post => draft.update(post));
+ *   draft.removeById('211');
+ *   draft.append({ id: '411', name: 'Emily' });
+ * });
+ * ```
+ */
+export const withMutations = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , mutate: (draft: KeyedListDraft<T, K>) => void): IdKeyedList<T, K> => {
+    const keyOf = keyExtractor(list.keyBy);
+    const { compareWith } = list;
+    const original = backendOf(list);
+    let backend = original;
+    // The keys of the added, changed and removed elements, for the indexes
+    const touched: { [id: string]: K } = {};
+
+    // An element of a sorted list is placed by the comparator, the others at the index
+    const place = (key: K, x: T, index: number) => {
+        backend = insertKey(backend, compareWith ? sortedPosition(backend, compareWith, x) : index, key);
+    };
+
+    // Stores the element and tells whether its key has to be placed
+    const put = (x: T, options: InsertOptions = {}): boolean => {
+        const key = keyOf(x);
+        const id = encodeKey(key);
+        if (backendHas(backend, id)) {
+            switch (options.onDuplicate || 'throw') {
+                case 'ignore':
+                    return false;
+                case 'replace':
+                    touched[id] = key;
+                    if (compareWith && compareWith(backendElement(backend, id) as T, x) !== 0) {
+                        backend = setElement(removeKey(backend, key), id, x);
+                        place(key, x, 0);
+                        return false;
+                    }
+                    backend = setElement(backend, id, x);
+                    return false;
+                case 'move':
+                    backend = removeKey(backend, key);
+                    break;
+                default:
+                    throw new DuplicateKeyError(key);
+            }
+        }
+        touched[id] = key;
+        backend = setElement(backend, id, x);
+        return true;
+    };
+
+    const draft: KeyedListDraft<T, K> = {
+        getById: id => backendElement(backend, encodeKey(id)) as DeepReadonly<T> | undefined,
+        getCount: () => keyCount(backend),
+        append: (x, options) => {
+            if (put(x, options)) {
+                place(keyOf(x), x, keyCount(backend));
+            }
+        },
+        insert: (x, options) => {
+            if (put(x, options)) {
+                place(keyOf(x), x, 0);
+            }
+        },
+        update: (elemProps, options = {}) => {
+            const key = keyOf(elemProps as T);
+            const id = encodeKey(key);
+            if (!backendHas(backend, id)) {
+                if (options.strict) {
+                    throw new MissingKeyError(key);
+                }
+                return;
+            }
+            const current = backendElement(backend, id) as T;
+            if (hasProps(current, elemProps)) {
+                return;
+            }
+            // An element, which is changed back, keeps its original identity
+            const initial = backendElement(original, id) as T | undefined;
+            const assigned: T = Object.assign({}, current, elemProps);
+            const updated = initial !== undefined && shallowEqual(initial, assigned) ? initial : assigned;
+            touched[id] = key;
+            backend = setElement(backend, id, updated);
+            if (compareWith && compareWith(current, updated) !== 0) {
+                backend = removeKey(backend, key);
+                place(key, updated, 0);
+            }
+        },
+        removeById: (id, options = {}) => {
+            const encodedId = encodeKey(id);
+            if (!backendHas(backend, encodedId)) {
+                if (options.strict) {
+                    throw new MissingKeyError(id);
+                }
+                return;
+            }
+            touched[encodedId] = id;
+            backend = deleteElement(removeKey(backend, id), encodedId);
+        },
+        remove: (x, options) => draft.removeById(keyOf(x), options),
+        move: (id, toIndex) => {
+            requireUnsorted(list);
+            const fromIndex = keyIndex(backend, id);
+            if (fromIndex < 0) {
+                throw new MissingKeyError(id);
+            }
+            // The same way as by `move`
+            const targetIndex = clampIndex(toIndex, keyCount(backend) - 1);
+            if (fromIndex === targetIndex) {
+                return;
+            }
+            backend = insertKey(removeKey(backend, id), targetIndex, id);
+        }
+    };
+
+    mutate(draft);
+
+    // The edits, which are undoing each other, are giving back the original list
+    const touchedIds = Object.keys(touched);
+    const unchanged = backend === original
+        || (touchedIds.every(id => backendElement(backend, id) === backendElement(original, id)
+            && backendHas(backend, id) === backendHas(original, id))
+            && sameOrder(backend, original));
+    return unchanged
+        ? list
+        : refreshIndexes(list, withBackend(list, backend), touchedIds.map(id => touched[id]));
+};
+
+/**
+ * The same as `withMutations`.
+ */
+export const batch = withMutations;
@@ -0,0 +1,264 @@
+import { IdKeyedList } from './KeyedList';
+import { DuplicateKeyError, InvalidPatchError, MissingKeyError } from './errors';
+import { deepEqual } from './equality';
+import { refreshIndexes } from './indexes';
+import { KeyValueType, encodeKey, hasElement, isKeyValue } from './keys';
+import { findMoved } from './sequences';
+import { backendElement, backendHas, backendOf, deleteElement, insertKey, keyCount, keyIndex, removeKey, setElement, withBackend } from './backend';
+
+/**
+ * The version of the patch format, which is written by `diff`.
+ */
+export const PATCH_VERSION = 1;
+
+/** Removes the element with the key */
+export interface RemoveOperation<K extends KeyValueType = string> {
+    op: 'remove';
+    key: K;
+}
+
+/** Sets and deletes properties of the element with the key */
+export interface UpdateOperation<T, K extends KeyValueType = string> {
+    op: 'update';
+    key: K;
+    set: Partial<T>;
+    unset: string[];
+}
+
+/** Inserts a new element at the index */
+export interface InsertOperation<T, K extends KeyValueType = string> {
+    op: 'insert';
+    key: K;
+    index: number;
+    value: T;
+}
+
+/** Moves the element with the key to the index */
+export interface MoveOperation<K extends KeyValueType = string> {
+    op: 'move';
+    key: K;
+    index: number;
+}
+
+export type PatchOperation<T, K extends KeyValueType = string> =
+    RemoveOperation<K> | UpdateOperation<T, K> | InsertOperation<T, K> | MoveOperation<K>;
+
+/**
+ * The changes between two lists. The operations are applied one after
+ * the other, the indices are referring to the list as it is at the time
+ * of the operation. The patch is JSON-serializable, as long as the
+ * elements are.
+ *
+ * ```json
+ * {
+ *   "version": 1,
+ *   "operations": [
+ *     { "op": "remove", "key": "211" },
+ *     { "op": "update", "key": "100", "set": { "name": "Tom" }, "unset": [ "nickname" ] },
+ *     { "op": "insert", "key": "411", "index": 0, "value": { "id": "411", "name": "Emily" } },
+ *     { "op": "move", "key": "331", "index": 1 }
+ *   ]
+ * }
+ * ```
+ */
+export interface KeyedListPatch<T, K extends KeyValueType = string> {
+    version: typeof PATCH_VERSION;
+    operations: PatchOperation<T, K>[];
+}
+
+const diffElements = <T, K extends KeyValueType>(key: K, before: T, after: T): UpdateOperation<T, K> | undefined => {
+    const set: Partial<T> = {};
+    const unset: string[] = [];
+    (Object.keys(after) as Array<keyof T>).forEach(prop => {
+        const value = after[prop];
+        if (!Object.prototype.hasOwnProperty.call(before, prop) || !deepEqual(before[prop], value)) {
+            set[prop] = value;
+        }
+    });
+    Object.keys(before).forEach(prop => {
+        if (!Object.prototype.hasOwnProperty.call(after, prop)) {
+            unset.push(prop);
+        }
+    });
+    return (Object.keys(set).length > 0 || unset.length > 0)
+        ? { op: 'update', key, set, unset }
+        : undefined;
+};
+
+const isIndex = (value: unknown): value is number =>
+    typeof value === 'number' && Math.floor(value) === value;
+
+// Checks the shape of an operation, which can come from the wire as well
+const requireOperation = <T, K extends KeyValueType>(operation: unknown, position: number): PatchOperation<T, K> => {
+    const invalid = (reason: string) =>
+        new InvalidPatchError(`The operation ${ position } of the patch ${ reason }`);
+    if (typeof operation !== 'object' || operation === null || Array.isArray(operation)) {
+        throw invalid('is not an object');
+    }
+    const { op, key, set, unset, index } = operation as { [field: string]: unknown };
+    if (!isKeyValue(key)) {
+        throw invalid('has no valid key');
+    }
+    switch (op) {
+        case 'remove':
+            break;
+        case 'update':
+            if (typeof set !== 'object' || set === null || Array.isArray(set)) {
+                throw invalid('has no object to set');
+            }
+            if (!Array.isArray(unset) || !unset.every(prop => typeof prop === 'string')) {
+                throw invalid('has no array of the properties to unset');
+            }
+            break;
+        case 'insert':
+            if (!isIndex(index)) {
+                throw invalid('has no valid index');
+            }
+            if (!hasElement(operation as { [field: string]: unknown }, 'value')) {
+                throw invalid('has no value to insert');
+            }
+            break;
+        case 'move':
+            if (!isIndex(index)) {
+                throw invalid('has no valid index');
+            }
+            break;
+        default:
+            throw new InvalidPatchError(`Unknown patch operation ${ JSON.stringify(op) }`);
+    }
+    return operation as PatchOperation<T, K>;
+};
+
+/**
+ * Describes the changes between two lists, as a patch. The removals
+ * come first, then the property updates, then the insertions and the
+ * moves. Only the smallest set of elements is moved, the others are
+ * keeping their places.
+ *
+ * ```typescript
+ * const patch = keyedList.diff(before, after);
+ * socket.send(JSON.stringify(patch));
+ *
+ * // on the other side
+ * const synced = keyedList.applyPatch(before, JSON.parse(message));
+ * ```
+ */
+export const diff = <T, K extends KeyValueType = string>(before: IdKeyedList<T, K>, after: IdKeyedList<T, K>): KeyedListPatch<T, K> => {
+    const operations: PatchOperation<T, K>[] = [];
+    const beforeIds = before.keys.map(encodeKey);
+    const afterIds = after.keys.map(encodeKey);
+    const isBefore = (id: string) => hasElement(before.elements, id);
+    const isAfter = (id: string) => hasElement(after.elements, id);
+
+    before.keys.forEach((key, i) => {
+        if (!isAfter(beforeIds[i])) {
+            operations.push({ op: 'remove', key });
+        }
+    });
+
+    after.keys.forEach((key, i) => {
+        const id = afterIds[i];
+        if (isBefore(id)) {
+            const operation = diffElements(key, before.elements[id] as T, after.elements[id] as T);
+            if (operation) {
+                operations.push(operation);
+            }
+        }
+    });
+
+    // The indices are calculated on a simulated list, so each operation
+    // places its element right after the preceding one of the target order
+    const current = beforeIds.filter(isAfter);
+    const moved: { [id: string]: boolean } = {};
+    findMoved(current, afterIds.filter(isBefore)).forEach(id => {
+        moved[id] = true;
+    });
+    after.keys.forEach((key, i) => {
+        const id = afterIds[i];
+        const isNew = !isBefore(id);
+        if (!isNew && !hasElement(moved, id)) {
+            return;
+        }
+        if (!isNew) {
+            current.splice(current.indexOf(id), 1);
+        }
+        const index = i === 0 ? 0 : current.indexOf(afterIds[i - 1]) + 1;
+        current.splice(index, 0, id);
+        operations.push(isNew
+            ? { op: 'insert', key, index, value: after.elements[id] as T }
+            : { op: 'move', key, index });
+    });
+
+    return { version: PATCH_VERSION, operations };
+};
+
+/**
+ * Replays a patch, which was made by `diff`, on a list. Applying the
+ * differences of two lists on the first one gives back the second one:
+ * `applyPatch(a, diff(a, b))` is equal to `b`. When the patch does
+ * not fit the list, a `KeyedListError` is thrown. The operations are
+ * checked first, so a malformed one throws an `InvalidPatchError`,
+ * before anything is applied.
+ *
+ * ```typescript
+ * const synced = keyedList.applyPatch(list, patch);
+ * ```
+ */
+export const applyPatch = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, patch: KeyedListPatch<T, K>): IdKeyedList<T, K> => {
+    if (patch.version !== PATCH_VERSION) {
+        throw new InvalidPatchError(`The patch version ${ patch.version } is not supported`);
+    }
+    if (!Array.isArray(patch.operations)) {
+        throw new InvalidPatchError('The patch has no array of operations');
+    }
+    const operations = patch.operations.map((operation, i) => requireOperation<T, K>(operation, i));
+    if (operations.length === 0) {
+        return list;
+    }
+    let backend = backendOf(list);
+    const requireIndex = (key: K) => {
+        const index = keyIndex(backend, key);
+        if (index < 0) {
+            throw new MissingKeyError(key);
+        }
+        return index;
+    };
+    const place = (key: K, index: number) => {
+        backend = insertKey(backend, Math.min(Math.max(index, 0), keyCount(backend)), key);
+    };
+
+    operations.forEach(operation => {
+        const id = encodeKey(operation.key);
+        switch (operation.op) {
+            case 'remove':
+                requireIndex(operation.key);
+                backend = deleteElement(removeKey(backend, operation.key), id);
+                break;
+            case 'update': {
+                requireIndex(operation.key);
+                const updated: T = Object.assign({}, backendElement(backend, id), operation.set);
+                operation.unset.forEach(prop => {
+                    delete updated[prop as keyof T];
+                });
+                backend = setElement(backend, id, updated);
+                break;
+            }
+            case 'insert':
+                if (backendHas(backend, id)) {
+                    throw new DuplicateKeyError(operation.key);
+                }
+                backend = setElement(backend, id, operation.value);
+                place(operation.key, operation.index);
+                break;
+            default:
+                requireIndex(operation.key);
+                backend = removeKey(backend, operation.key);
+                place(operation.key, operation.index);
+        }
+    });
+
+    const touched = operations
+        .filter(operation => operation.op !== 'move')
+        .map(operation => operation.key);
+    return refreshIndexes(list, withBackend(list, backend), touched);
+};
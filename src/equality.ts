@@ -0,0 +1,50 @@
+const propOf = (x: unknown, prop: string): unknown =>
+    (x as { [prop: string]: unknown })[prop];
+
+/**
+ * Compares two values by their own properties, the properties
+ * themselves are compared by identity.
+ *
+ * ```typescript
+ * keyedList.shallowEqual({ id: '1', tags: tags }, { id: '1', tags: tags }); // true
+ * keyedList.shallowEqual({ id: '1', tags: [] }, { id: '1', tags: [] }); // false
+ * ```
+ */
+export const shallowEqual = <T>(left: T, right: T): boolean => {
+    if (left === right) {
+        return true;
+    }
+    if (typeof left !== 'object' || typeof right !== 'object' || left === null || right === null) {
+        return false;
+    }
+    const leftProps = Object.keys(left);
+    const rightProps = Object.keys(right);
+    return leftProps.length === rightProps.length
+        && leftProps.every(prop => Object.prototype.hasOwnProperty.call(right, prop)
+            && propOf(left, prop) === propOf(right, prop));
+};
+
+/**
+ * Compares two values structurally. Arrays and objects are compared
+ * by their items and own properties, dates by their time.
+ */
+export const deepEqual = (left: unknown, right: unknown): boolean => {
+    if (left === right) {
+        return true;
+    }
+    if (typeof left !== 'object' || typeof right !== 'object' || left === null || right === null) {
+        // NaN is the only value, which is not equal to itself
+        return left !== left && right !== right;
+    }
+    if (left instanceof Date || right instanceof Date) {
+        return left instanceof Date && right instanceof Date && left.getTime() === right.getTime();
+    }
+    if (Array.isArray(left) !== Array.isArray(right)) {
+        return false;
+    }
+    const leftProps = Object.keys(left as object);
+    const rightProps = Object.keys(right as object);
+    return leftProps.length === rightProps.length
+        && leftProps.every(prop => Object.prototype.hasOwnProperty.call(right, prop)
+            && deepEqual(propOf(left, prop), propOf(right, prop)));
+};
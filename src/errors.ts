@@ -0,0 +1,93 @@
+import { KeyValueType } from './keys';
+
+/**
+ * The base of all errors, thrown by the list functions.
+ */
+export class KeyedListError extends Error {
+    constructor(message: string) {
+        super(message);
+        // Keeps `instanceof` working, when compiled to ES5
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'KeyedListError';
+    }
+}
+
+/**
+ * Thrown when an id is referenced, which is not in the list.
+ */
+export class MissingKeyError extends KeyedListError {
+    constructor(public readonly key: KeyValueType) {
+        super(`The key ${ JSON.stringify(key) } is not in the list`);
+        this.name = 'MissingKeyError';
+    }
+}
+
+/**
+ * Thrown when an element is added with an id, which is already in the list.
+ */
+export class DuplicateKeyError extends KeyedListError {
+    constructor(public readonly key: KeyValueType) {
+        super(`The key ${ JSON.stringify(key) } is already in the list`);
+        this.name = 'DuplicateKeyError';
+    }
+}
+
+/**
+ * Thrown when a new order of the ids is not a permutation of the list's keys.
+ */
+export class InvalidOrderError extends KeyedListError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidOrderError';
+    }
+}
+
+/**
+ * Thrown when a patch can not be applied to a list.
+ */
+export class InvalidPatchError extends KeyedListError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidPatchError';
+    }
+}
+
+/**
+ * Thrown when an element would share its value in a unique index with another one.
+ */
+export class IndexConstraintError extends KeyedListError {
+    constructor(public readonly index: string, public readonly value: KeyValueType) {
+        super(`The value ${ JSON.stringify(value) } is already in the unique index ${ JSON.stringify(index) }`);
+        this.name = 'IndexConstraintError';
+    }
+}
+
+/**
+ * Thrown when a serialized list can not be read back.
+ */
+export class InvalidPayloadError extends KeyedListError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidPayloadError';
+    }
+}
+
+/**
+ * Thrown when the parents of a tree are forming a cycle.
+ */
+export class CycleError extends KeyedListError {
+    constructor(public readonly key: KeyValueType) {
+        super(`The key ${ JSON.stringify(key) } is its own ancestor`);
+        this.name = 'CycleError';
+    }
+}
+
+/**
+ * Thrown when the parent of an element of a tree is not in the list.
+ */
+export class OrphanError extends KeyedListError {
+    constructor(public readonly key: KeyValueType, public readonly parentKey: KeyValueType) {
+        super(`The parent ${ JSON.stringify(parentKey) } of the key ${ JSON.stringify(key) } is not in the list`);
+        this.name = 'OrphanError';
+    }
+}
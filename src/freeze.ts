@@ -0,0 +1,79 @@
+import { IdKeyedList } from './KeyedList';
+import { KeyValueType } from './keys';
+
+/**
+ * Makes every property readonly, all the way down. Arrays become
+ * readonly arrays, while functions and binary data are kept as they are.
+ */
+export type DeepReadonly<T> =
+    T extends (...args: any[]) => any ? T :
+    T extends Date ? T :
+    T extends ArrayBufferView ? T :
+    T extends ReadonlyArray<infer E> ? ReadonlyArray<DeepReadonly<E>> :
+    T extends ReadonlyMap<infer MK, infer MV> ? ReadonlyMap<DeepReadonly<MK>, DeepReadonly<MV>> :
+    T extends ReadonlySet<infer S> ? ReadonlySet<DeepReadonly<S>> :
+    T extends object ? { readonly [P in keyof T]: DeepReadonly<T[P]> } :
+    T;
+
+let devMode = false;
+
+/**
+ * Turns the development mode on or off, it is off by default. In the
+ * development mode, every list, which the functions are giving back, is
+ * deep-frozen together with its elements, so an accidental mutation
+ * throws a `TypeError` right away (in strict mode code). When it is off,
+ * the lists are not touched at all.
+ *
+ * The elements are copied one level deep at most, so the nested objects
+ * and arrays, which were passed in, are frozen as well. The caller has
+ * to copy them, when it keeps changing them.
+ *
+ * ```typescript
+ * keyedList.setDevMode(process.env.NODE_ENV !== 'production');
+ *
+ * const list = keyedList.fromArray(persons);
+ * keyedList.getById(list, '100')!.name = 'Tom'; // throws a TypeError
+ * ```
+ */
+export const setDevMode = (enabled: boolean): void => {
+    devMode = enabled;
+};
+
+/**
+ * Tells whether the development mode is on, see `setDevMode`.
+ */
+export const isDevMode = (): boolean => devMode;
+
+const isFreezable = (x: unknown): x is object =>
+    x !== null && typeof x === 'object' && !ArrayBuffer.isView(x);
+
+/**
+ * Freezes an object with all the objects, which can be reached from it.
+ * The objects, which are already frozen, are not visited again, so the
+ * unchanged elements of a list are only frozen once. The typed arrays
+ * and the other views of binary data can not be frozen, so they are
+ * skipped, together with everything they refer to.
+ *
+ * ```typescript
+ * const settings = keyedList.deepFreeze({ theme: { dark: true } });
+ * ```
+ */
+export const deepFreeze = <X>(x: X): DeepReadonly<X> => {
+    if (isFreezable(x) && !Object.isFrozen(x)) {
+        // Frozen first, so the cycles are stopped by the check above
+        Object.freeze(x);
+        Object.getOwnPropertyNames(x).forEach(name => deepFreeze((x as Record<string, unknown>)[name]));
+    }
+    return x as DeepReadonly<X>;
+};
+
+/**
+ * Deep-freezes a list, which is given back by a function, when the
+ * development mode is on.
+ */
+export const freezeInDevMode = <T, K extends KeyValueType>(list: IdKeyedList<T, K>): IdKeyedList<T, K> => {
+    if (devMode) {
+        deepFreeze(list);
+    }
+    return list;
+};
@@ -0,0 +1,212 @@
+import { ElementsWithId, IdKeyedList, removeById } from './KeyedList';
+import { DeepReadonly, freezeInDevMode } from './freeze';
+import { KeyValueType, encodeKey, hasElement } from './keys';
+import { insertAt } from './positional';
+import { changedKeys } from './sequences';
+import { filterList, reject } from './transforms';
+
+export type GroupKey = string | number | boolean;
+
+/**
+ * Selects the group of an element, either by a property name or by
+ * a function. The elements without a group (`undefined` or `null`) are
+ * left out.
+ */
+export type GroupKeySelector<T, G extends GroupKey = GroupKey> = keyof T | ((x: T) => G | undefined | null);
+
+/**
+ * The groups of a list, by their group keys, see `groupBy`.
+ */
+export type GroupedLists<T, K extends KeyValueType = string> = { [group: string]: IdKeyedList<T, K> };
+
+// The common operations of the records and the maps of the groups
+interface GroupAccess<G, T, K extends KeyValueType> {
+    get(group: G): IdKeyedList<T, K> | undefined;
+    set(group: G, list: IdKeyedList<T, K>): void;
+    delete(group: G): void;
+}
+
+const groupOf = <T, G extends GroupKey>(keyFn: GroupKeySelector<T, G>) => (x: DeepReadonly<T>): G | undefined => {
+    const element = x as T;
+    const group = typeof keyFn === 'function' ? keyFn(element) : element[keyFn] as unknown as G | null | undefined;
+    return group === null ? undefined : group;
+};
+
+// The groups are keeping the key selector and the sorting, but not the indexes
+const emptyGroup = <T, K extends KeyValueType>(list: IdKeyedList<T, K>): IdKeyedList<T, K> => {
+    const group: IdKeyedList<T, K> = { keys: [], elements: {} };
+    if (list.keyBy !== undefined) {
+        group.keyBy = list.keyBy;
+    }
+    if (list.compareWith) {
+        group.compareWith = list.compareWith;
+    }
+    return group;
+};
+
+const fillGroups = <T, K extends KeyValueType, G extends GroupKey>(list: IdKeyedList<T, K>, keyFn: GroupKeySelector<T, G>
+      , groups: GroupAccess<G, T, K>): void => {
+    const keyOf = groupOf(keyFn);
+    list.keys.forEach(key => {
+        const id = encodeKey(key);
+        const x = list.elements[id];
+        const group = keyOf(x);
+        if (group === undefined) {
+            return;
+        }
+        let groupList = groups.get(group);
+        if (!groupList) {
+            groupList = emptyGroup(list);
+            groups.set(group, groupList);
+        }
+        // The groups are new, so they are filled in place
+        (groupList.keys as K[]).push(key);
+        (groupList.elements as ElementsWithId<DeepReadonly<T>>)[id] = x;
+    });
+};
+
+const regroupInto = <T, K extends KeyValueType, G extends GroupKey>(groups: GroupAccess<G, T, K>
+      , previous: IdKeyedList<T, K>, next: IdKeyedList<T, K>, keyFn: GroupKeySelector<T, G>): boolean => {
+    const touched = changedKeys(previous, next);
+    if (touched.length === 0) {
+        return false;
+    }
+    const keyOf = groupOf(keyFn);
+    // The touched elements are removed first, so the groups are only holding
+    // elements, which are keeping their relative order
+    touched.forEach(key => {
+        const id = encodeKey(key);
+        const group = hasElement(previous.elements, id) ? keyOf(previous.elements[id]) : undefined;
+        const groupList = group === undefined ? undefined : groups.get(group);
+        if (group !== undefined && groupList) {
+            const removed = removeById(groupList, key);
+            if (removed.keys.length === 0) {
+                groups.delete(group);
+            } else {
+                groups.set(group, removed);
+            }
+        }
+    });
+    const positions: { [id: string]: number } = {};
+    next.keys.forEach((key, i) => {
+        positions[encodeKey(key)] = i;
+    });
+    touched.forEach(key => {
+        const id = encodeKey(key);
+        const group = hasElement(next.elements, id) ? keyOf(next.elements[id]) : undefined;
+        if (group === undefined) {
+            return;
+        }
+        const groupList = groups.get(group) || emptyGroup(next);
+        // Binary search for the place of the element, by its position in the list
+        let low = 0;
+        let high = groupList.keys.length;
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            if (positions[encodeKey(groupList.keys[middle])] < positions[id]) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        groups.set(group, insertAt(groupList, low, next.elements[id] as T));
+    });
+    return true;
+};
+
+const recordAccess = <T, K extends KeyValueType>(groups: GroupedLists<T, K>): GroupAccess<GroupKey, T, K> => ({
+    get: group => hasElement(groups, String(group)) ? groups[String(group)] : undefined,
+    set: (group, list) => {
+        groups[String(group)] = list;
+    },
+    delete: group => {
+        delete groups[String(group)];
+    }
+});
+
+/**
+ * Splits the list into groups, by a property or by a function. Every group
+ * is a list, with the elements in their original order. The groups are
+ * keeping the key selector and the sorting of the list, but not its
+ * indexes. The elements without a group (`undefined` or `null`) are left out.
+ *
+ * ```typescript
+ * const tasks = keyedList.fromArray([
+ *   { id: 't1', status: 'todo' },
+ *   { id: 't2', status: 'done' },
+ *   { id: 't3', status: 'todo' }
+ * ]);
+ *
+ * const byStatus = keyedList.groupBy(tasks, 'status');
+ * keyedList.getIds(byStatus.todo); // [ 't1', 't3' ]
+ * ```
+ */
+export const groupBy = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, keyFn: GroupKeySelector<T>): GroupedLists<T, K> => {
+    const groups: GroupedLists<T, K> = {};
+    fillGroups(list, keyFn, recordAccess(groups));
+    Object.keys(groups).forEach(group => freezeInDevMode(groups[group]));
+    return groups;
+};
+
+/**
+ * The same as `groupBy`, but the groups are in a `Map`, so the group keys
+ * are keeping their types, and the groups are in the order, in which they
+ * first appear in the list.
+ *
+ * ```typescript
+ * const byAuthor = keyedList.groupByMap(posts, post => post.authorId);
+ * byAuthor.forEach((authorPosts, authorId) => render(authorId, authorPosts));
+ * ```
+ */
+export const groupByMap = <T, G extends GroupKey, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , keyFn: GroupKeySelector<T, G>): Map<G, IdKeyedList<T, K>> => {
+    const groups = new Map<G, IdKeyedList<T, K>>();
+    fillGroups(list, keyFn, groups);
+    groups.forEach(group => freezeInDevMode(group));
+    return groups;
+};
+
+/**
+ * Updates the groups of a list after a change, so only the changed
+ * elements are moved between the groups. The untouched groups are kept
+ * by reference, and when nothing has changed, the same groups are given
+ * back. A `Map` of groups (see `groupByMap`) is updated into a new `Map`.
+ *
+ * ```typescript
+ * let list = keyedList.fromArray(tasks);
+ * let byStatus = keyedList.groupBy(list, 'status');
+ *
+ * const next = keyedList.update(list, { id: 't1', status: 'done' });
+ * byStatus = keyedList.regroup(byStatus, list, next, 'status'); // only 't1' has moved
+ * ```
+ */
+export function regroup<T, K extends KeyValueType = string>(groups: GroupedLists<T, K>
+      , previous: IdKeyedList<T, K>, next: IdKeyedList<T, K>, keyFn: GroupKeySelector<T>): GroupedLists<T, K>;
+export function regroup<T, G extends GroupKey, K extends KeyValueType = string>(groups: Map<G, IdKeyedList<T, K>>
+      , previous: IdKeyedList<T, K>, next: IdKeyedList<T, K>, keyFn: GroupKeySelector<T, G>): Map<G, IdKeyedList<T, K>>;
+export function regroup<T, G extends GroupKey, K extends KeyValueType = string>(groups: GroupedLists<T, K> | Map<G, IdKeyedList<T, K>>
+      , previous: IdKeyedList<T, K>, next: IdKeyedList<T, K>, keyFn: GroupKeySelector<T, G>): GroupedLists<T, K> | Map<G, IdKeyedList<T, K>> {
+    if (previous === next) {
+        return groups;
+    }
+    if (groups instanceof Map) {
+        const copy = new Map<G, IdKeyedList<T, K>>();
+        groups.forEach((list, group) => copy.set(group, list));
+        return regroupInto(copy, previous, next, keyFn) ? copy : groups;
+    }
+    const copy = { ...groups };
+    return regroupInto(recordAccess(copy), previous, next, keyFn) ? copy : groups;
+}
+
+/**
+ * Splits the list into two lists, the elements, which are satisfying
+ * the predicate, and the rest. Both are keeping the order, the key
+ * selector and the indexes of the list.
+ *
+ * ```typescript
+ * const [ adults, minors ] = keyedList.partition(persons, p => p.age >= 18);
+ * ```
+ */
+export const partition = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , predicate: (x: DeepReadonly<T>, id: K, index: number) => boolean): [ IdKeyedList<T, K>, IdKeyedList<T, K> ] =>
+    [ filterList(list, predicate), reject(list, predicate) ];
@@ -0,0 +1,186 @@
+import { IdKeyedList, InsertOptions, StrictOptions, append, getKey, insert, removeById, sort, update } from './KeyedList';
+import { KeyedListDraft, withMutations } from './batch';
+import { KeyedListError } from './errors';
+import { KeyValueType, hasElement, keysEqual } from './keys';
+import { move, reorder, swap } from './positional';
+import { changedKeys } from './sequences';
+import { Comparator } from './sorted';
+
+/**
+ * A recorded operation, which can be undone and redone.
+ */
+export interface HistoryStep<T, K extends KeyValueType = string> {
+    operation: string;
+    /** The ids, which the operation has added, changed, removed or moved */
+    ids: K[];
+    before: IdKeyedList<T, K>;
+    after: IdKeyedList<T, K>;
+    /** When the step was recorded (or last coalesced), in milliseconds */
+    time: number;
+}
+
+export interface HistoryOptions {
+    /** The number of the steps, which can be undone, 100 by default */
+    depth?: number;
+    /**
+     * The same operations on the same single id are coalesced into one
+     * step, when they are following each other within this many
+     * milliseconds. 0 by default, so nothing is coalesced.
+     */
+    coalesceWithin?: number;
+}
+
+/**
+ * A list with its undo and redo history, see `createHistory`.
+ */
+export interface KeyedListHistory<T, K extends KeyValueType = string> {
+    /** Gets the current list */
+    getSnapshot(): IdKeyedList<T, K>;
+    canUndo(): boolean;
+    canRedo(): boolean;
+    /** Undoes the last step, and gives it back, if there was any */
+    undo(): HistoryStep<T, K> | undefined;
+    /** Redoes the last undone step, and gives it back, if there was any */
+    redo(): HistoryStep<T, K> | undefined;
+    /** The steps, which can be undone, the last one first */
+    undoSteps(): HistoryStep<T, K>[];
+    /** The steps, which can be redone, the next one first */
+    redoSteps(): HistoryStep<T, K>[];
+    /** Names the current state of the list, so it can be restored later */
+    checkpoint(name: string): void;
+    /** Undoes or redoes the steps, until the list is at the checkpoint */
+    restore(name: string): void;
+    /** Forgets all the steps and the checkpoints */
+    clear(): void;
+    /**
+     * Records any change of the list, as an operation with a name. The
+     * touched ids are found by comparing the lists, when they are not given.
+     */
+    apply(operation: string, change: (list: IdKeyedList<T, K>) => IdKeyedList<T, K>, ids?: K[]): void;
+    append(x: T, options?: InsertOptions): void;
+    insert(x: T, options?: InsertOptions): void;
+    update(elemProps: Partial<T>, options?: StrictOptions): void;
+    removeById(id: K, options?: StrictOptions): void;
+    sort(compareWith: Comparator<T>): void;
+    move(id: K, toIndex: number): void;
+    swap(leftId: K, rightId: K): void;
+    reorder(ids: K[]): void;
+    withMutations(mutate: (draft: KeyedListDraft<T, K>) => void): void;
+}
+
+/**
+ * Creates an undo and redo history for a list. Every write is recorded
+ * as a step, which tells the ids it has touched, so they can be highlighted.
+ * Since the lists are immutable, a step only holds the references of the
+ * lists before and after it.
+ *
+ * ```typescript
+ * const history = keyedList.createHistory(keyedList.fromArray(todos), { depth: 50, coalesceWithin: 500 });
+ *
+ * history.update({ id: 't1', text: 'Writ' });
+ * history.update({ id: 't1', text: 'Write' }); // coalesced with the previous step
+ * history.checkpoint('saved');
+ * history.removeById('t2');
+ *
+ * const step = history.undo(); // step.ids == [ 't2' ]
+ * history.restore('saved');
+ * ```
+ */
+export const createHistory = <T, K extends KeyValueType = string>(initial: IdKeyedList<T, K>
+      , options: HistoryOptions = {}): KeyedListHistory<T, K> => {
+    const depth = options.depth === undefined ? 100 : options.depth;
+    const coalesceWithin = options.coalesceWithin || 0;
+    let present = initial;
+    let past: HistoryStep<T, K>[] = [];
+    let future: HistoryStep<T, K>[] = [];
+    let checkpoints: { [name: string]: IdKeyedList<T, K> } = {};
+
+    const canCoalesce = (last: HistoryStep<T, K> | undefined, operation: string, ids: K[], time: number) =>
+        last !== undefined && future.length === 0
+            && last.operation === operation
+            && last.ids.length === 1 && ids.length === 1 && keysEqual(last.ids[0], ids[0])
+            && time - last.time <= coalesceWithin
+            // A checkpoint has to stay reachable
+            && !Object.keys(checkpoints).some(name => checkpoints[name] === last.after);
+
+    const history: KeyedListHistory<T, K> = {
+        getSnapshot: () => present,
+        canUndo: () => past.length > 0,
+        canRedo: () => future.length > 0,
+        undo: () => {
+            const step = past.pop();
+            if (step) {
+                present = step.before;
+                future.push(step);
+            }
+            return step;
+        },
+        redo: () => {
+            const step = future.pop();
+            if (step) {
+                present = step.after;
+                past.push(step);
+            }
+            return step;
+        },
+        undoSteps: () => [ ...past ].reverse(),
+        redoSteps: () => [ ...future ].reverse(),
+        checkpoint: name => {
+            checkpoints[name] = present;
+        },
+        restore: name => {
+            if (!hasElement(checkpoints, name)) {
+                throw new KeyedListError(`There is no checkpoint named ${ JSON.stringify(name) }`);
+            }
+            const target = checkpoints[name];
+            if (target === present) {
+                return;
+            }
+            if (past.some(step => step.before === target)) {
+                while (present !== target) {
+                    history.undo();
+                }
+            } else if (future.some(step => step.after === target)) {
+                while (present !== target) {
+                    history.redo();
+                }
+            } else {
+                throw new KeyedListError(`The checkpoint ${ JSON.stringify(name) } is not in the history anymore`);
+            }
+        },
+        clear: () => {
+            past = [];
+            future = [];
+            checkpoints = {};
+        },
+        apply: (operation, change, knownIds) => {
+            const next = change(present);
+            if (next === present) {
+                return;
+            }
+            const ids = knownIds || changedKeys(present, next);
+            const time = Date.now();
+            const last = past[past.length - 1];
+            if (coalesceWithin > 0 && canCoalesce(last, operation, ids, time)) {
+                past[past.length - 1] = { ...last, after: next, time };
+            } else {
+                past.push({ operation, ids, before: present, after: next, time });
+                if (past.length > depth) {
+                    past.splice(0, past.length - depth);
+                }
+            }
+            future = [];
+            present = next;
+        },
+        append: (x, insertOptions) => history.apply('append', list => append(list, x, insertOptions), [ getKey(present, x) ]),
+        insert: (x, insertOptions) => history.apply('insert', list => insert(list, x, insertOptions), [ getKey(present, x) ]),
+        update: (elemProps, strictOptions) => history.apply('update', list => update(list, elemProps, strictOptions), [ getKey(present, elemProps) ]),
+        removeById: (id, strictOptions) => history.apply('removeById', list => removeById(list, id, strictOptions), [ id ]),
+        sort: compareWith => history.apply('sort', list => sort(list, compareWith)),
+        move: (id, toIndex) => history.apply('move', list => move(list, id, toIndex), [ id ]),
+        swap: (leftId, rightId) => history.apply('swap', list => swap(list, leftId, rightId), [ leftId, rightId ]),
+        reorder: ids => history.apply('reorder', list => reorder(list, ids)),
+        withMutations: mutate => history.apply('withMutations', list => withMutations(list, mutate))
+    };
+    return history;
+};
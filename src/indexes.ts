@@ -0,0 +1,186 @@
+import { IdKeyedList } from './KeyedList';
+import { IndexConstraintError, KeyedListError } from './errors';
+import { DeepReadonly, freezeInDevMode } from './freeze';
+import { KeyValueType, encodeKey, hasElement } from './keys';
+import { byPosition, elementOf, hasId, withSettings } from './backend';
+
+/**
+ * Selects the value, which an element is indexed by. It can be a
+ * property name or a function, which computes the value. Elements with
+ * an `undefined` or `null` value are left out of the index.
+ */
+export type IndexKeySelector<T> = keyof T | ((x: T) => KeyValueType | undefined | null);
+
+export interface IndexDefinition<T> {
+    key: IndexKeySelector<T>;
+    /** Allow only one element for each value, see `IndexConstraintError` */
+    unique?: boolean;
+}
+
+/**
+ * A secondary index of a list. The entries are holding the keys of the
+ * elements, grouped by their encoded index values.
+ */
+export interface SecondaryIndex<T, K extends KeyValueType = string> {
+    key: IndexKeySelector<T>;
+    unique: boolean;
+    entries: { [value: string]: K[] };
+}
+
+export type SecondaryIndexes<T, K extends KeyValueType = string> = { [name: string]: SecondaryIndex<T, K> };
+
+const indexValue = <T>(selector: IndexKeySelector<T>, x: T): KeyValueType | undefined => {
+    const value = typeof selector === 'function'
+        ? selector(x)
+        : x[selector] as unknown as KeyValueType | null | undefined;
+    return value === null ? undefined : value;
+};
+
+const requireIndex = <T, K extends KeyValueType>(list: IdKeyedList<T, K>, name: string): SecondaryIndex<T, K> => {
+    const index = list.indexes && list.indexes[name];
+    if (!index) {
+        throw new KeyedListError(`The list has no index named ${ JSON.stringify(name) }`);
+    }
+    return index;
+};
+
+/**
+ * Brings the indexes of a list up to date, after the elements with the
+ * given keys were added, changed or removed. The `previous` list is
+ * the one, which the `next` list was made from. Lists without indexes are
+ * given back as they are. Since the writes are ending here, the list is
+ * frozen as well, in the development mode (see `setDevMode`).
+ */
+export const refreshIndexes = <T, K extends KeyValueType>(previous: IdKeyedList<T, K>
+      , next: IdKeyedList<T, K>, touched: ReadonlyArray<K>): IdKeyedList<T, K> => {
+    if (!next.indexes || touched.length === 0) {
+        return freezeInDevMode(next);
+    }
+    const indexes: SecondaryIndexes<T, K> = {};
+    Object.keys(next.indexes).forEach(name => {
+        const index = (next.indexes as SecondaryIndexes<T, K>)[name];
+        const entries = { ...index.entries };
+        const changes = touched.map(key => {
+            const id = encodeKey(key);
+            const before = hasId(previous, id) ? indexValue(index.key, elementOf(previous, id) as T) : undefined;
+            const after = hasId(next, id) ? indexValue(index.key, elementOf(next, id) as T) : undefined;
+            return { key, id, before, after };
+        }).filter(({ before, after }) =>
+            (before === undefined ? undefined : encodeKey(before)) !== (after === undefined ? undefined : encodeKey(after)));
+
+        // All the old values are removed first, so the elements can swap unique values
+        changes.forEach(({ id, before }) => {
+            const value = before === undefined ? undefined : encodeKey(before);
+            if (value !== undefined && hasElement(entries, value)) {
+                const remaining = entries[value].filter(k => encodeKey(k) !== id);
+                if (remaining.length > 0) {
+                    entries[value] = remaining;
+                } else {
+                    delete entries[value];
+                }
+            }
+        });
+        changes.forEach(({ key, after }) => {
+            if (after === undefined) {
+                return;
+            }
+            const value = encodeKey(after);
+            const bucket = hasElement(entries, value) ? entries[value] : [];
+            if (index.unique && bucket.length > 0) {
+                throw new IndexConstraintError(name, after);
+            }
+            entries[value] = [ ...bucket, key ];
+        });
+        indexes[name] = { ...index, entries };
+    });
+    return freezeInDevMode(withSettings(next, { indexes }));
+};
+
+// The indexes are built, as if all the elements were just added to an empty list
+const buildIndexes = <T, K extends KeyValueType>(list: IdKeyedList<T, K>, indexes: SecondaryIndexes<T, K>): SecondaryIndexes<T, K> => {
+    const empty: SecondaryIndexes<T, K> = {};
+    Object.keys(indexes).forEach(name => {
+        empty[name] = { ...indexes[name], entries: {} };
+    });
+    return refreshIndexes({ keys: [], elements: {} }, withSettings(list, { indexes: empty }), list.keys).indexes as SecondaryIndexes<T, K>;
+};
+
+/**
+ * Builds the indexes of a list again, from its own elements. Used for
+ * lists, which are made of a part of another list. The list is frozen
+ * in the development mode, like by `refreshIndexes`.
+ */
+export const rebuildIndexes = <T, K extends KeyValueType>(list: IdKeyedList<T, K>): IdKeyedList<T, K> =>
+    freezeInDevMode(list.indexes
+        ? withSettings(list, { indexes: buildIndexes(list, list.indexes) })
+        : list);
+
+/**
+ * Declares a secondary index on the list. The index is kept up to date
+ * by all the functions, which are changing the list, so the elements can
+ * be looked up by the indexed value, without scanning the whole list.
+ *
+ * ```typescript
+ * let list = keyedList.fromArray(posts);
+ * list = keyedList.addIndex(list, 'byAuthor', { key: 'authorId' });
+ * list = keyedList.addIndex(list, 'bySlug', { key: 'slug', unique: true });
+ * list = keyedList.addIndex(list, 'byYear', { key: post => post.createdAt.getFullYear() });
+ *
+ * const johnsPosts = keyedList.lookup(list, 'byAuthor', 'u1');
+ * ```
+ */
+export const addIndex = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, name: string
+      , definition: IndexDefinition<T>): IdKeyedList<T, K> => {
+    const index: SecondaryIndex<T, K> = {
+        key: definition.key,
+        unique: !!definition.unique,
+        entries: {}
+    };
+    return freezeInDevMode(withSettings(list, {
+        indexes: {
+            ...list.indexes,
+            ...buildIndexes(list, { [name]: index })
+        }
+    }));
+};
+
+/**
+ * Removes a secondary index from the list.
+ */
+export const removeIndex = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, name: string): IdKeyedList<T, K> => {
+    if (!list.indexes || !hasElement(list.indexes, name)) {
+        return list;
+    }
+    const remaining = { ...list.indexes };
+    delete remaining[name];
+    return freezeInDevMode(withSettings(list, {
+        indexes: Object.keys(remaining).length > 0 ? remaining : undefined
+    }));
+};
+
+/**
+ * Gets the ids of the elements with the given value in a secondary index,
+ * in the order of the list.
+ */
+export const lookupIds = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, name: string, value: KeyValueType): K[] => {
+    const index = requireIndex(list, name);
+    const encodedValue = encodeKey(value);
+    const bucket = hasElement(index.entries, encodedValue) ? index.entries[encodedValue] : [];
+    if (bucket.length < 2) {
+        return [ ...bucket ];
+    }
+    return byPosition(list, bucket);
+};
+
+/**
+ * Gets the elements with the given value in a secondary index,
+ * in the order of the list. Throws a `KeyedListError`, when the list
+ * has no index with the name.
+ *
+ * ```typescript
+ * const drafts = keyedList.lookup(list, 'byStatus', 'draft');
+ * const [ post ] = keyedList.lookup(list, 'bySlug', 'hello-world');
+ * ```
+ */
+export const lookup = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, name: string, value: KeyValueType): DeepReadonly<T>[] =>
+    lookupIds(list, name, value).map(key => elementOf(list, encodeKey(key)) as DeepReadonly<T>);
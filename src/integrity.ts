@@ -0,0 +1,243 @@
+import { ElementsWithId, IdKeyedList } from './KeyedList';
+import { InvalidPayloadError } from './errors';
+import { DeepReadonly } from './freeze';
+import { SecondaryIndexes, rebuildIndexes } from './indexes';
+import { KeyValueType, encodeKey, hasElement, isKeyValue, keyExtractor } from './keys';
+import { sortKeys } from './sorted';
+
+/**
+ * The kinds of the problems, which `validate` finds:
+ * - `invalidShape`: the value is not a keyed list at all
+ * - `invalidKey`: a key is not a string, a number or a composite key
+ * - `duplicateKey`: a key is in the keys more than once
+ * - `missingElement`: a key has no element
+ * - `orphanedElement`: an element has no key
+ * - `keyMismatch`: an element is stored under a key, which is not its own
+ * - `unsorted`: a list, which is kept sorted, is out of order
+ * - `staleIndex`: a secondary index does not match the elements
+ */
+export type ListProblemType = 'invalidShape' | 'invalidKey' | 'duplicateKey' | 'missingElement'
+    | 'orphanedElement' | 'keyMismatch' | 'unsorted' | 'staleIndex';
+
+export interface ListProblem {
+    type: ListProblemType;
+    /** The encoded key of the element, when the problem is about one, see `encodeKey` */
+    id?: string;
+    /** The name of the index, for a `staleIndex` */
+    index?: string;
+    message: string;
+}
+
+/**
+ * How `repair` fixes the problems. The keys, which are invalid or have
+ * no element, are always dropped, the lists are sorted again, and the
+ * indexes are rebuilt.
+ */
+export interface RepairPolicy {
+    /** Which one of the duplicate keys is kept, the first one by default */
+    duplicates?: 'keepFirst' | 'keepLast';
+    /** Drop the elements, which are stored under an other key (the default), or move them to their own keys */
+    mismatched?: 'drop' | 'rekey';
+    /** Drop the elements, which have no key (the default), or append them to the end */
+    orphans?: 'drop' | 'append';
+}
+
+// The own key of an element, or undefined, when it can not be computed
+const ownKeyOf = <T, K extends KeyValueType>(list: IdKeyedList<T, K>) => {
+    const keyOf = keyExtractor(list.keyBy);
+    return (x: DeepReadonly<T>): K | undefined => {
+        try {
+            const key = keyOf(x as T);
+            return isKeyValue(key) ? key : undefined;
+        } catch (e) {
+            return undefined;
+        }
+    };
+};
+
+// Compares the entries of the indexes, while the order of the buckets does not matter
+const sameEntries = <K extends KeyValueType>(left: { [value: string]: K[] }, right: { [value: string]: K[] }): boolean => {
+    const values = Object.keys(left);
+    return values.length === Object.keys(right).length && values.every(value => {
+        if (!hasElement(right, value) || left[value].length !== right[value].length) {
+            return false;
+        }
+        const ids = right[value].map(key => encodeKey(key));
+        return left[value].every(key => ids.indexOf(encodeKey(key)) >= 0);
+    });
+};
+
+/**
+ * Tells whether a value has the shape of a keyed list. Only the shape is
+ * checked, see `validate` for the integrity of the keys and the elements.
+ *
+ * ```typescript
+ * const payload: unknown = JSON.parse(message.data);
+ * if (keyedList.isKeyedList<Post>(payload)) {
+ *   render(payload);
+ * }
+ * ```
+ */
+export const isKeyedList = <T = unknown, K extends KeyValueType = string>(value: unknown): value is IdKeyedList<T, K> => {
+    if (value === null || typeof value !== 'object') {
+        return false;
+    }
+    const list = value as { [property: string]: unknown };
+    return Array.isArray(list.keys)
+        && list.elements !== null && typeof list.elements === 'object' && !Array.isArray(list.elements)
+        && (list.keyBy === undefined || typeof list.keyBy === 'string' || typeof list.keyBy === 'function')
+        && (list.indexes === undefined || (list.indexes !== null && typeof list.indexes === 'object'))
+        && (list.compareWith === undefined || typeof list.compareWith === 'function');
+};
+
+/**
+ * Checks the integrity of a list, which comes from an untrusted source,
+ * like a persisted state or a web worker. Gives back the problems found,
+ * or an empty array, when the list is valid. The order and the indexes
+ * are only checked, when the keys and the elements are consistent.
+ *
+ * ```typescript
+ * const problems = keyedList.validate(restored);
+ * // [ { type: 'duplicateKey', id: '211', message: 'The key "211" is in the keys more than once' } ]
+ * ```
+ */
+export const validate = (value: unknown): ListProblem[] => {
+    if (!isKeyedList(value)) {
+        return [ { type: 'invalidShape', message: 'The value is not a keyed list' } ];
+    }
+    const list = value as IdKeyedList<unknown, KeyValueType>;
+    const ownKey = ownKeyOf(list);
+    const problems: ListProblem[] = [];
+    const seen: { [id: string]: boolean } = {};
+    list.keys.forEach((key, i) => {
+        if (!isKeyValue(key)) {
+            problems.push({ type: 'invalidKey', message: `The key at ${ i } is not a string, a number or a composite key` });
+            return;
+        }
+        const id = encodeKey(key);
+        if (hasElement(seen, id)) {
+            problems.push({ type: 'duplicateKey', id, message: `The key ${ JSON.stringify(id) } is in the keys more than once` });
+            return;
+        }
+        seen[id] = true;
+        if (!hasElement(list.elements, id)) {
+            problems.push({ type: 'missingElement', id, message: `The key ${ JSON.stringify(id) } has no element` });
+            return;
+        }
+        const own = ownKey(list.elements[id]);
+        if (own === undefined || encodeKey(own) !== id) {
+            problems.push({ type: 'keyMismatch', id, message: `The element of the key ${ JSON.stringify(id) } has a different key` });
+        }
+    });
+    Object.keys(list.elements).forEach(id => {
+        if (!hasElement(seen, id)) {
+            problems.push({ type: 'orphanedElement', id, message: `The element ${ JSON.stringify(id) } is not in the keys` });
+        }
+    });
+    if (problems.length > 0) {
+        return problems;
+    }
+
+    const { compareWith } = list;
+    if (compareWith && list.keys.some((key, i) => i > 0
+            && compareWith(list.elements[encodeKey(list.keys[i - 1])], list.elements[encodeKey(key)]) > 0)) {
+        problems.push({ type: 'unsorted', message: 'The list is kept sorted, but it is out of order' });
+    }
+    const indexes = list.indexes;
+    if (indexes) {
+        let rebuilt: SecondaryIndexes<unknown, KeyValueType> | undefined;
+        try {
+            rebuilt = rebuildIndexes(list).indexes;
+        } catch (e) {
+            rebuilt = undefined;
+        }
+        Object.keys(indexes).forEach(name => {
+            const index = indexes[name];
+            if (!rebuilt || !index || typeof index.entries !== 'object' || !sameEntries(index.entries, rebuilt[name].entries)) {
+                problems.push({ type: 'staleIndex', index: name, message: `The index ${ JSON.stringify(name) } does not match the elements` });
+            }
+        });
+    }
+    return problems;
+};
+
+/**
+ * Fixes the problems, which `validate` finds, the same way every time.
+ * The invalid keys and the keys without an element are dropped, the other
+ * problems are fixed by the policy, then a sorted list is sorted again,
+ * and the indexes are rebuilt. A valid list is given back as it is. Throws
+ * an `InvalidPayloadError`, when the value is not a keyed list at all, and
+ * an `IndexConstraintError`, when the elements are violating a unique index.
+ *
+ * ```typescript
+ * const list = keyedList.repair(restored, { duplicates: 'keepLast', orphans: 'append' });
+ * ```
+ */
+export const repair = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, policy: RepairPolicy = {}): IdKeyedList<T, K> => {
+    const problems = validate(list);
+    if (problems.length === 0) {
+        return list;
+    }
+    if (problems[0].type === 'invalidShape') {
+        throw new InvalidPayloadError(problems[0].message);
+    }
+    const ownKey = ownKeyOf(list);
+    const keys: K[] = [];
+    const elements: ElementsWithId<DeepReadonly<T>> = {};
+    // The elements under an other key, with the place, where they were found
+    const mismatched: Array<{ x: DeepReadonly<T>, index: number }> = [];
+    const candidates = policy.duplicates === 'keepLast' ? [ ...list.keys ].reverse() : list.keys;
+    candidates.forEach(key => {
+        if (!isKeyValue(key)) {
+            return;
+        }
+        const id = encodeKey(key);
+        if (hasElement(elements, id) || !hasElement(list.elements, id)) {
+            return;
+        }
+        const x = list.elements[id];
+        const own = ownKey(x);
+        if (own !== undefined && encodeKey(own) === id) {
+            keys.push(key);
+            elements[id] = x;
+        } else if (own !== undefined) {
+            mismatched.push({ x, index: keys.length });
+        }
+    });
+    if (policy.mismatched === 'rekey') {
+        // The later ones are placed first, so the earlier places are not shifted
+        [ ...mismatched ].reverse().forEach(({ x, index }) => {
+            const own = ownKey(x) as K;
+            const id = encodeKey(own);
+            if (!hasElement(elements, id)) {
+                keys.splice(index, 0, own);
+                elements[id] = x;
+            }
+        });
+    }
+    if (policy.duplicates === 'keepLast') {
+        keys.reverse();
+    }
+    if (policy.orphans === 'append') {
+        const referenced: { [id: string]: boolean } = {};
+        list.keys.forEach(key => {
+            if (isKeyValue(key)) {
+                referenced[encodeKey(key)] = true;
+            }
+        });
+        Object.keys(list.elements).forEach(id => {
+            const x = list.elements[id];
+            const own = ownKey(x);
+            if (!hasElement(referenced, id) && own !== undefined && !hasElement(elements, encodeKey(own))) {
+                keys.push(own);
+                elements[encodeKey(own)] = x;
+            }
+        });
+    }
+    const repaired: IdKeyedList<T, K> = {
+        ...list,
+        keys: list.compareWith ? sortKeys(list.compareWith, keys, elements) : keys,
+        elements
+    };
+    return rebuildIndexes(repaired);
+};
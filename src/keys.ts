@@ -0,0 +1,109 @@
+/**
+ * A key made up from multiple values, like `[tenantId, orderId]`.
+ */
+export type CompositeKey = ReadonlyArray<string | number>;
+
+export type KeyValueType = string | number | CompositeKey;
+
+/**
+ * Names the property of `T` which holds the key of an element.
+ */
+export type KeyName<T, K extends KeyValueType = KeyValueType> = {
+    [P in keyof T]-?: T[P] extends K ? P : never;
+}[keyof T];
+
+/**
+ * Computes the key of an element.
+ */
+export type KeyExtractor<T, K extends KeyValueType = KeyValueType> = (x: T) => K;
+
+/**
+ * Selects the key of the list elements, either by a property name or by
+ * an extractor function.
+ *
+ * ```typescript
+ * const byUuid: KeySelector<Post> = 'uuid';
+ * const bySlug: KeySelector<Post> = post => post.slug;
+ * const byOrder: KeySelector<Order> = order => [order.tenantId, order.orderId];
+ * ```
+ */
+export type KeySelector<T, K extends KeyValueType = KeyValueType> = KeyName<T, K> | KeyExtractor<T, K>;
+
+/**
+ * The type of the key, which is chosen by the key name `N`. Without
+ * a name, this is the type of the `id` property.
+ */
+export type SelectedKey<T, N extends keyof T = never> = Extract<[N] extends [never]
+    ? (T extends { id: infer I } ? I : string)
+    : T[N], KeyValueType>;
+
+/**
+ * The key property used, when a list does not configure its own.
+ */
+export const DEFAULT_KEY = 'id';
+
+/**
+ * Resolves a key selector into a function, which extracts the key
+ * from an element. Lists without a selector are keyed by their `id`.
+ */
+export const keyExtractor = <T, K extends KeyValueType>(keyBy?: KeySelector<T, K>): KeyExtractor<T, K> => {
+    if (typeof keyBy === 'function') {
+        return keyBy;
+    }
+    if (keyBy === undefined) {
+        return (x: T) => (x as unknown as Record<typeof DEFAULT_KEY, K>)[DEFAULT_KEY];
+    }
+    const name = keyBy;
+    return (x: T) => x[name] as unknown as K;
+};
+
+/**
+ * Encodes a key into the string, which addresses the element in
+ * the `elements` of a list. Strings are kept as they are, numbers are
+ * converted with `String` and composite keys are encoded as JSON arrays,
+ * so `[ 'acme', 42 ]` becomes `'["acme",42]'`.
+ */
+export const encodeKey = (key: KeyValueType): string => {
+    if (typeof key === 'string') {
+        return key;
+    }
+    if (typeof key === 'number') {
+        return String(key);
+    }
+    return JSON.stringify(key);
+};
+
+/**
+ * Tells whether the value can be a key: a string, a number or a
+ * composite key of them.
+ */
+export const isKeyValue = (key: unknown): key is KeyValueType =>
+    typeof key === 'string'
+        || (typeof key === 'number' && !isNaN(key))
+        || (Array.isArray(key) && key.every(part => typeof part === 'string' || typeof part === 'number'));
+
+/**
+ * Checks whether two keys are addressing the same element.
+ */
+export const keysEqual = (left: KeyValueType, right: KeyValueType): boolean =>
+    left === right || encodeKey(left) === encodeKey(right);
+
+/**
+ * Finds the index of a key in an array of keys, or -1 when it is not there.
+ */
+export const findKeyIndex = (keys: ReadonlyArray<KeyValueType>, key: KeyValueType): number => {
+    const encoded = encodeKey(key);
+    for (let i = 0; i < keys.length; i++) {
+        if (keys[i] === key || encodeKey(keys[i]) === encoded) {
+            return i;
+        }
+    }
+    return -1;
+};
+
+/**
+ * Checks whether the elements are holding the encoded key. Only own
+ * properties are counted, so keys like `'constructor'` are safe.
+ */
+export const hasElement = (elements: object, id: string): boolean =>
+    Object.prototype.hasOwnProperty.call(elements, id);
@@ -0,0 +1,195 @@
+import { ElementsWithId, IdKeyedList } from './KeyedList';
+import { withMutations } from './batch';
+import { freezeInDevMode } from './freeze';
+import { KeySelector, KeyValueType, encodeKey, hasElement, keyExtractor } from './keys';
+
+/**
+ * The nested entities of an entity type, by their properties: a schema
+ * for one entity, or a schema in an array for many.
+ */
+export type EntityRelations = { [property: string]: EntitySchema | [ EntitySchema ] };
+
+/**
+ * Describes an entity type, see `createEntity`.
+ */
+export interface EntitySchema {
+    /** The name of the entity type, which is the name of its list as well */
+    readonly name: string;
+    /** Selects the key of the entities, the `id` property is used when not given */
+    readonly keyBy?: KeySelector<any, KeyValueType>;
+    /** The properties with nested entities, which can be extended later for cyclic schemas */
+    relations: EntityRelations;
+}
+
+export interface EntityOptions {
+    keyBy?: KeySelector<any, KeyValueType>;
+    relations?: EntityRelations;
+}
+
+// An entity, of which only the properties are known
+type Entity = { [property: string]: unknown };
+
+/**
+ * The lists of the entities, by the names of their types.
+ */
+export type EntityLists<E = { [name: string]: Entity }> = { [N in keyof E]?: IdKeyedList<E[N], KeyValueType> };
+
+export interface NormalizedData<R, E = { [name: string]: Entity }> {
+    /** The key, or the keys of the top level entities */
+    result: R;
+    entities: EntityLists<E>;
+}
+
+// The entities found so far, which are turned into lists at the end
+type Collected = { [name: string]: { schema: EntitySchema, keys: KeyValueType[], elements: ElementsWithId<Entity> } };
+
+const isEntity = (value: unknown): value is object =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Creates the schema of an entity type. The relations of the schemas
+ * can refer to each other, so they can be added after all the schemas
+ * are created.
+ *
+ * ```typescript
+ * const user = keyedList.createEntity('users');
+ * const comment = keyedList.createEntity('comments', { relations: { author: user } });
+ * const post = keyedList.createEntity('posts', { relations: { author: user, comments: [ comment ] } });
+ *
+ * user.relations.posts = [ post ];
+ * ```
+ */
+export const createEntity = (name: string, options: EntityOptions = {}): EntitySchema => {
+    const schema: EntitySchema = { name, relations: { ...options.relations } };
+    return options.keyBy === undefined ? schema : { ...schema, keyBy: options.keyBy };
+};
+
+const collect = (value: object, schema: EntitySchema, collected: Collected): KeyValueType => {
+    const entity: Entity = { ...value };
+    Object.keys(schema.relations).forEach(property => {
+        const relation = schema.relations[property];
+        const nested = entity[property];
+        if (nested === undefined || nested === null) {
+            return;
+        }
+        // The values, which are not objects, are taken as keys already
+        entity[property] = Array.isArray(relation)
+            ? (nested as unknown[]).map(x => isEntity(x) ? collect(x, relation[0], collected) : x)
+            : isEntity(nested) ? collect(nested, relation, collected) : nested;
+    });
+    const key = keyExtractor(schema.keyBy)(entity);
+    const id = encodeKey(key);
+    if (!hasElement(collected, schema.name)) {
+        collected[schema.name] = { schema, keys: [], elements: {} };
+    }
+    const { keys, elements } = collected[schema.name];
+    if (hasElement(elements, id)) {
+        elements[id] = { ...elements[id], ...entity };
+    } else {
+        keys.push(key);
+        elements[id] = entity;
+    }
+    return key;
+};
+
+/**
+ * Splits a nested payload into one list for each entity type, where the
+ * nested entities are replaced by their keys. The repeated occurrences of
+ * an entity are merged, the later properties are winning. When the current
+ * lists are given, the entities are merged into them, so they can be
+ * stored as they are.
+ *
+ * ```typescript
+ * const { result, entities } = keyedList.normalize(response.posts, [ post ]);
+ * // result == [ 'p1', 'p2' ]
+ * // entities.posts: { id: 'p1', title: '...', author: 'u1', comments: [ 'c1' ] }, ...
+ * // entities.users: { id: 'u1', name: '...' }, ...
+ *
+ * const next = keyedList.normalize(fetchedPost, post, state.entities).entities;
+ * ```
+ */
+export function normalize<E = { [name: string]: Entity }>(payload: object, schema: EntitySchema
+      , entities?: EntityLists<E>): NormalizedData<KeyValueType, E>;
+export function normalize<E = { [name: string]: Entity }>(payload: object[], schema: [ EntitySchema ]
+      , entities?: EntityLists<E>): NormalizedData<KeyValueType[], E>;
+export function normalize<E>(payload: object | object[], schema: EntitySchema | [ EntitySchema ]
+      , entities: EntityLists<E> = {}): NormalizedData<KeyValueType | KeyValueType[], E> {
+    const collected: Collected = {};
+    const result = Array.isArray(schema)
+        ? (payload as object[]).map(x => collect(x, schema[0], collected))
+        : collect(payload, schema, collected);
+    const lists: { [name: string]: IdKeyedList<any, KeyValueType> | undefined } = { ...entities };
+    Object.keys(collected).forEach(name => {
+        const { schema: entitySchema, keys, elements } = collected[name];
+        const current = lists[name];
+        if (current) {
+            lists[name] = withMutations(current, draft => keys.forEach(key => {
+                const x = elements[encodeKey(key)];
+                if (draft.getById(key) === undefined) {
+                    draft.append(x);
+                } else {
+                    draft.update(x);
+                }
+            }));
+            return;
+        }
+        const list: IdKeyedList<any, KeyValueType> = { keys, elements };
+        if (entitySchema.keyBy !== undefined) {
+            list.keyBy = entitySchema.keyBy;
+        }
+        lists[name] = freezeInDevMode(list);
+    });
+    return { result, entities: lists as EntityLists<E> };
+}
+
+const expand = (key: KeyValueType, schema: EntitySchema, entities: EntityLists, expanded: { [id: string]: unknown }): unknown => {
+    const list = entities[schema.name];
+    const id = encodeKey(key);
+    if (!list || !hasElement(list.elements, id)) {
+        return undefined;
+    }
+    // The same entity is expanded once, so the cyclic relations are referring to the same object
+    const cacheId = `${ schema.name }:${ id }`;
+    if (hasElement(expanded, cacheId)) {
+        return expanded[cacheId];
+    }
+    const entity: Entity = { ...list.elements[id] };
+    expanded[cacheId] = entity;
+    Object.keys(schema.relations).forEach(property => {
+        const relation = schema.relations[property];
+        const nested = entity[property];
+        if (nested === undefined || nested === null) {
+            return;
+        }
+        entity[property] = Array.isArray(relation)
+            ? (nested as KeyValueType[])
+                .map(nestedKey => expand(nestedKey, relation[0], entities, expanded))
+                .filter(x => x !== undefined)
+            : expand(nested as KeyValueType, relation, entities, expanded);
+    });
+    return entity;
+};
+
+/**
+ * Puts the nested entities back in place of their keys, which is the
+ * opposite of `normalize`, for rendering. The lists are not changed, the
+ * entities are copied. The missing entities are left out of the arrays,
+ * and they are `undefined` otherwise. An entity, which is referred to
+ * many times, is the same object everywhere, so the cyclic relations
+ * are kept as cycles.
+ *
+ * ```typescript
+ * const posts = keyedList.denormalize<Post>(state.postIds, [ post ], state.entities);
+ * // posts[0].author.name, posts[0].comments[0].text
+ * ```
+ */
+export function denormalize<R = any>(result: KeyValueType, schema: EntitySchema, entities: EntityLists): R | undefined;
+export function denormalize<R = any>(result: KeyValueType[], schema: [ EntitySchema ], entities: EntityLists): R[];
+export function denormalize<R>(result: KeyValueType | KeyValueType[], schema: EntitySchema | [ EntitySchema ]
+      , entities: EntityLists): R | undefined | R[] {
+    const expanded: { [id: string]: unknown } = {};
+    const denormalized = Array.isArray(schema)
+        ? (result as KeyValueType[]).map(key => expand(key, schema[0], entities, expanded)).filter(x => x !== undefined)
+        : expand(result as KeyValueType, schema, entities, expanded);
+    return denormalized as R | undefined | R[];
+}
@@ -0,0 +1,166 @@
+import { IdKeyedList, InsertOptions } from './KeyedList';
+import { withMutations } from './batch';
+import { KeyedListError } from './errors';
+import { KeyValueType } from './keys';
+
+/**
+ * A pending write of a layer. The writes are applied leniently, since the
+ * base can change under them: an append replaces an element with the same
+ * id (unless an other `onDuplicate` policy is given), and the updates and
+ * the removals of missing ids are ignored.
+ */
+export type OptimisticOperation<T, K extends KeyValueType = string> =
+    | { type: 'append'; element: T; options?: InsertOptions }
+    | { type: 'update'; elemProps: Partial<T> }
+    | { type: 'remove'; id: K };
+
+export interface OptimisticLayer<T, K extends KeyValueType = string> {
+    name: string;
+    operations: OptimisticOperation<T, K>[];
+}
+
+/**
+ * Records the writes of a layer, see `addLayer`.
+ */
+export interface OptimisticLayerDraft<T, K extends KeyValueType = string> {
+    append(x: T, options?: InsertOptions): void;
+    update(elemProps: Partial<T>): void;
+    removeById(id: K): void;
+}
+
+/**
+ * A confirmed list with the pending layers on top of it.
+ */
+export interface OptimisticList<T, K extends KeyValueType = string> {
+    /** The list, which is confirmed by the server */
+    readonly base: IdKeyedList<T, K>;
+    /** The pending layers, the oldest first */
+    readonly layers: ReadonlyArray<OptimisticLayer<T, K>>;
+    /** The base with all the layers applied, which should be rendered */
+    readonly visible: IdKeyedList<T, K>;
+}
+
+const applyLayers = <T, K extends KeyValueType>(base: IdKeyedList<T, K>
+      , layers: ReadonlyArray<OptimisticLayer<T, K>>): IdKeyedList<T, K> =>
+    layers.length === 0
+        ? base
+        : withMutations(base, draft => layers.forEach(layer => layer.operations.forEach(operation => {
+            switch (operation.type) {
+                case 'append':
+                    draft.append(operation.element, { onDuplicate: (operation.options && operation.options.onDuplicate) || 'replace' });
+                    break;
+                case 'update':
+                    draft.update(operation.elemProps);
+                    break;
+                case 'remove':
+                    draft.removeById(operation.id);
+                    break;
+            }
+        })));
+
+const withState = <T, K extends KeyValueType>(base: IdKeyedList<T, K>
+      , layers: ReadonlyArray<OptimisticLayer<T, K>>): OptimisticList<T, K> => ({
+    base,
+    layers,
+    visible: applyLayers(base, layers)
+});
+
+const requireLayer = <T, K extends KeyValueType>(state: OptimisticList<T, K>, name: string): number => {
+    const index = state.layers.map(layer => layer.name).indexOf(name);
+    if (index < 0) {
+        throw new KeyedListError(`There is no layer named ${ JSON.stringify(name) }`);
+    }
+    return index;
+};
+
+/**
+ * Starts the optimistic updates of a confirmed list, without any layers.
+ *
+ * ```typescript
+ * let posts = keyedList.createOptimisticList(keyedList.fromArray(confirmedPosts));
+ * render(posts.visible);
+ * ```
+ */
+export const createOptimisticList = <T, K extends KeyValueType = string>(base: IdKeyedList<T, K>): OptimisticList<T, K> =>
+    withState(base, []);
+
+/**
+ * Adds a named layer of pending writes on top of the others. The writes
+ * are recorded with a draft, or given as operations, which can be sent in
+ * actions as well. Throws a `KeyedListError`, when a layer with the same
+ * name is already pending.
+ *
+ * ```typescript
+ * posts = keyedList.addLayer(posts, 'rename-p1', layer => layer.update({ id: 'p1', title: 'Renamed' }));
+ * posts = keyedList.addLayer(posts, 'delete-p2', [ { type: 'remove', id: 'p2' } ]);
+ * ```
+ */
+export const addLayer = <T, K extends KeyValueType = string>(state: OptimisticList<T, K>, name: string
+      , write: OptimisticOperation<T, K>[] | ((layer: OptimisticLayerDraft<T, K>) => void)): OptimisticList<T, K> => {
+    if (state.layers.some(layer => layer.name === name)) {
+        throw new KeyedListError(`The layer ${ JSON.stringify(name) } is already pending`);
+    }
+    let operations: OptimisticOperation<T, K>[];
+    if (typeof write === 'function') {
+        operations = [];
+        const recorded = operations;
+        write({
+            append: (element, options) => recorded.push({ type: 'append', element, options }),
+            update: elemProps => recorded.push({ type: 'update', elemProps }),
+            removeById: id => recorded.push({ type: 'remove', id })
+        });
+    } else {
+        operations = [ ...write ];
+    }
+    const layer: OptimisticLayer<T, K> = { name, operations };
+    return {
+        base: state.base,
+        layers: [ ...state.layers, layer ],
+        // The new layer goes on top, so the others are not applied again
+        visible: applyLayers(state.visible, [ layer ])
+    };
+};
+
+/**
+ * Confirms a layer, so its writes are applied to the base, and the
+ * remaining layers are applied again on top of it. The layers can be
+ * committed in any order, a layer committed early is applied to the
+ * base before the older, still pending layers. When the server gives
+ * back the confirmed list, it can be given as the new base.
+ *
+ * ```typescript
+ * posts = keyedList.commitLayer(posts, 'delete-p2');
+ * posts = keyedList.commitLayer(posts, 'rename-p1', keyedList.fromArray(response.posts));
+ * ```
+ */
+export const commitLayer = <T, K extends KeyValueType = string>(state: OptimisticList<T, K>, name: string
+      , confirmed?: IdKeyedList<T, K>): OptimisticList<T, K> => {
+    const index = requireLayer(state, name);
+    const remaining = state.layers.filter((layer, i) => i !== index);
+    const base = confirmed || applyLayers(state.base, [ state.layers[index] ]);
+    return withState(base, remaining);
+};
+
+/**
+ * Drops a layer, after its writes were rejected, and applies the
+ * remaining layers again on top of the base.
+ *
+ * ```typescript
+ * posts = keyedList.rollbackLayer(posts, 'rename-p1');
+ * ```
+ */
+export const rollbackLayer = <T, K extends KeyValueType = string>(state: OptimisticList<T, K>, name: string): OptimisticList<T, K> => {
+    const index = requireLayer(state, name);
+    return withState(state.base, state.layers.filter((layer, i) => i !== index));
+};
+
+/**
+ * Replaces the base with a fresh list from the server, while the pending
+ * layers are applied on top of it.
+ *
+ * ```typescript
+ * posts = keyedList.rebase(posts, keyedList.fromArray(polledPosts));
+ * ```
+ */
+export const rebase = <T, K extends KeyValueType = string>(state: OptimisticList<T, K>, base: IdKeyedList<T, K>): OptimisticList<T, K> =>
+    base === state.base ? state : withState(base, state.layers);
@@ -0,0 +1,222 @@
+/**
+ * A node of a persistent AVL tree, which orders the keys of a list by
+ * their numeric labels. The nodes are counting their subtrees, so a key
+ * can be found by its position, and the position of a label can be
+ * counted, both in logarithmic time. A write copies only the nodes on
+ * the path of its label.
+ */
+export interface OrderNode<K> {
+    readonly label: number;
+    readonly key: K;
+    readonly left: OrderTree<K>;
+    readonly right: OrderTree<K>;
+    readonly height: number;
+    readonly size: number;
+}
+
+export type OrderTree<K> = OrderNode<K> | undefined;
+
+export const orderSize = <K>(tree: OrderTree<K>): number =>
+    tree ? tree.size : 0;
+
+const heightOf = <K>(tree: OrderTree<K>): number =>
+    tree ? tree.height : 0;
+
+const nodeOf = <K>(label: number, key: K, left: OrderTree<K>, right: OrderTree<K>): OrderNode<K> => ({
+    label,
+    key,
+    left,
+    right,
+    height: Math.max(heightOf(left), heightOf(right)) + 1,
+    size: orderSize(left) + orderSize(right) + 1
+});
+
+const rotateLeft = <K>(node: OrderNode<K>): OrderNode<K> => {
+    const right = node.right as OrderNode<K>;
+    return nodeOf(right.label, right.key, nodeOf(node.label, node.key, node.left, right.left), right.right);
+};
+
+const rotateRight = <K>(node: OrderNode<K>): OrderNode<K> => {
+    const left = node.left as OrderNode<K>;
+    return nodeOf(left.label, left.key, left.left, nodeOf(node.label, node.key, left.right, node.right));
+};
+
+// Makes a node, while the heights of its subtrees are differing by at most one
+const balanced = <K>(label: number, key: K, left: OrderTree<K>, right: OrderTree<K>): OrderNode<K> => {
+    const node = nodeOf(label, key, left, right);
+    const difference = heightOf(left) - heightOf(right);
+    if (difference > 1) {
+        const leftNode = left as OrderNode<K>;
+        return rotateRight(heightOf(leftNode.left) < heightOf(leftNode.right)
+            ? nodeOf(label, key, rotateLeft(leftNode), right)
+            : node);
+    }
+    if (difference < -1) {
+        const rightNode = right as OrderNode<K>;
+        return rotateLeft(heightOf(rightNode.right) < heightOf(rightNode.left)
+            ? nodeOf(label, key, left, rotateRight(rightNode))
+            : node);
+    }
+    return node;
+};
+
+/**
+ * Builds a balanced tree from the keys and their labels, which have to
+ * be in increasing order.
+ */
+export const buildOrder = <K>(keys: ReadonlyArray<K>, labels: ReadonlyArray<number>): OrderTree<K> => {
+    const build = (start: number, end: number): OrderTree<K> => {
+        if (start >= end) {
+            return undefined;
+        }
+        const middle = (start + end) >>> 1;
+        return nodeOf(labels[middle], keys[middle], build(start, middle), build(middle + 1, end));
+    };
+    return build(0, keys.length);
+};
+
+/**
+ * Adds a key with its label, or replaces the key of the label.
+ */
+export const orderInsert = <K>(tree: OrderTree<K>, label: number, key: K): OrderNode<K> => {
+    if (!tree) {
+        return nodeOf(label, key, undefined, undefined);
+    }
+    if (label < tree.label) {
+        return balanced(tree.label, tree.key, orderInsert(tree.left, label, key), tree.right);
+    }
+    if (label > tree.label) {
+        return balanced(tree.label, tree.key, tree.left, orderInsert(tree.right, label, key));
+    }
+    return nodeOf(label, key, tree.left, tree.right);
+};
+
+const removeFirst = <K>(tree: OrderNode<K>): OrderTree<K> =>
+    tree.left
+        ? balanced(tree.label, tree.key, removeFirst(tree.left), tree.right)
+        : tree.right;
+
+const firstOf = <K>(tree: OrderNode<K>): OrderNode<K> =>
+    tree.left ? firstOf(tree.left) : tree;
+
+/**
+ * Removes the key with the label. The same tree is given back, when
+ * the label is not in it.
+ */
+export const orderRemove = <K>(tree: OrderTree<K>, label: number): OrderTree<K> => {
+    if (!tree) {
+        return tree;
+    }
+    if (label < tree.label) {
+        const left = orderRemove(tree.left, label);
+        return left === tree.left ? tree : balanced(tree.label, tree.key, left, tree.right);
+    }
+    if (label > tree.label) {
+        const right = orderRemove(tree.right, label);
+        return right === tree.right ? tree : balanced(tree.label, tree.key, tree.left, right);
+    }
+    if (!tree.left || !tree.right) {
+        return tree.left || tree.right;
+    }
+    const next = firstOf(tree.right);
+    return balanced(next.label, next.key, tree.left, removeFirst(tree.right));
+};
+
+/**
+ * Gets the node at the position, in the order of the labels.
+ */
+export const orderAt = <K>(tree: OrderTree<K>, index: number): OrderNode<K> | undefined => {
+    let node = tree;
+    let position = index;
+    while (node) {
+        const leftSize = orderSize(node.left);
+        if (position < leftSize) {
+            node = node.left;
+        } else if (position > leftSize) {
+            position -= leftSize + 1;
+            node = node.right;
+        } else {
+            return node;
+        }
+    }
+    return undefined;
+};
+
+/**
+ * Counts the labels, which are less than the label, so it is the
+ * position of the label, when it is in the tree.
+ */
+export const orderRank = <K>(tree: OrderTree<K>, label: number): number => {
+    let node = tree;
+    let rank = 0;
+    while (node) {
+        if (label > node.label) {
+            rank += orderSize(node.left) + 1;
+            node = node.right;
+        } else {
+            node = node.left;
+        }
+    }
+    return rank;
+};
+
+/**
+ * Counts the keys from the beginning, which are before the searched
+ * place. The keys have to be ordered by the search, so the ones before
+ * the place are all before the others.
+ */
+export const orderSearch = <K>(tree: OrderTree<K>, isBefore: (key: K) => boolean): number => {
+    let node = tree;
+    let index = 0;
+    while (node) {
+        if (isBefore(node.key)) {
+            index += orderSize(node.left) + 1;
+            node = node.right;
+        } else {
+            node = node.left;
+        }
+    }
+    return index;
+};
+
+/**
+ * Gives new labels to the keys from the position on, one for each of
+ * them. The new labels have to keep the order of the tree, so it is not
+ * balanced again.
+ */
+export const orderRelabel = <K>(tree: OrderTree<K>, first: number, labels: ReadonlyArray<number>): OrderTree<K> => {
+    const end = first + labels.length;
+    const relabel = (node: OrderTree<K>, offset: number): OrderTree<K> => {
+        if (!node || offset >= end || offset + node.size <= first) {
+            return node;
+        }
+        const position = offset + orderSize(node.left);
+        return {
+            ...node,
+            label: position >= first && position < end ? labels[position - first] : node.label,
+            left: relabel(node.left, offset),
+            right: relabel(node.right, position + 1)
+        };
+    };
+    return relabel(tree, 0);
+};
+
+/**
+ * Gets the keys between the positions, the end is exclusive.
+ */
+export const orderSlice = <K>(tree: OrderTree<K>, start: number, end: number): K[] => {
+    const keys: K[] = [];
+    const collect = (node: OrderTree<K>, offset: number): void => {
+        if (!node || offset >= end || offset + node.size <= start) {
+            return;
+        }
+        const position = offset + orderSize(node.left);
+        collect(node.left, offset);
+        if (position >= start && position < end) {
+            keys.push(node.key);
+        }
+        collect(node.right, position + 1);
+    };
+    collect(tree, 0);
+    return keys;
+};
@@ -0,0 +1,135 @@
+import { ElementsWithId, IdKeyedList, InsertOptions } from './KeyedList';
+import { withMutations } from './batch';
+import { DeepReadonly } from './freeze';
+import { rebuildIndexes } from './indexes';
+import { KeyValueType, encodeKey } from './keys';
+import { countOf, requireIndex } from './backend';
+
+/**
+ * A page of a list, see `pageAfter` and `pageBefore`.
+ */
+export interface KeyedListPage<T, K extends KeyValueType = string> {
+    /** The elements of the page */
+    list: IdKeyedList<T, K>;
+    /** The id of the first element of the page, if there is any */
+    startCursor?: K;
+    /** The id of the last element of the page, if there is any */
+    endCursor?: K;
+    /** Tells whether there are more elements in the direction of the paging */
+    hasMore: boolean;
+}
+
+const toPage = <T, K extends KeyValueType>(list: IdKeyedList<T, K>, start: number, end: number
+      , hasMore: boolean): KeyedListPage<T, K> => {
+    const page = slice(list, start, end);
+    return {
+        list: page,
+        startCursor: page.keys[0],
+        endCursor: page.keys[page.keys.length - 1],
+        hasMore
+    };
+};
+
+/**
+ * Gets a part of the list, as a new list. The indices are working
+ * the same way as the ones of `Array.prototype.slice`, so the negative
+ * ones are counted from the end.
+ *
+ * ```typescript
+ * const persons = [
+ *   { id: '100', name: 'Peter' },
+ *   { id: '211', name: 'John'  },
+ *   { id: '331', name: 'Steve' }
+ * ];
+ * const list = keyedList.fromArray(persons);
+ *
+ * const lastTwo = keyedList.slice(list, -2);
+ * // ids == [ '211', '331' ]
+ * ```
+ */
+export const slice = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, start?: number, end?: number): IdKeyedList<T, K> => {
+    const keys = list.keys.slice(start, end);
+    if (keys.length === list.keys.length) {
+        return list;
+    }
+    const elements: ElementsWithId<DeepReadonly<T>> = {};
+    keys.forEach(key => {
+        const id = encodeKey(key);
+        elements[id] = list.elements[id];
+    });
+    return rebuildIndexes({ ...list, keys, elements });
+};
+
+/**
+ * Gets the next `size` elements after the element with the cursor id,
+ * or from the beginning, when the cursor is not given. Throws a
+ * `MissingKeyError`, when the cursor is not in the list.
+ *
+ * ```typescript
+ * const first = keyedList.pageAfter(list, undefined, 20);
+ * const second = keyedList.pageAfter(list, first.endCursor, 20);
+ * if (!second.hasMore) {
+ *   // the end of the list is reached
+ * }
+ * ```
+ */
+export const pageAfter = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, cursor: K | undefined
+      , size: number): KeyedListPage<T, K> => {
+    const start = cursor === undefined ? 0 : requireIndex(list, cursor) + 1;
+    const end = Math.min(start + Math.max(size, 0), countOf(list));
+    return toPage(list, start, end, end < countOf(list));
+};
+
+/**
+ * Gets the previous `size` elements before the element with the cursor id,
+ * or from the end, when the cursor is not given. The elements of the page
+ * are in the order of the list. Throws a `MissingKeyError`, when the cursor
+ * is not in the list.
+ *
+ * ```typescript
+ * const last = keyedList.pageBefore(list, undefined, 20);
+ * const previous = keyedList.pageBefore(list, last.startCursor, 20);
+ * ```
+ */
+export const pageBefore = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, cursor: K | undefined
+      , size: number): KeyedListPage<T, K> => {
+    const end = cursor === undefined ? countOf(list) : requireIndex(list, cursor);
+    const start = Math.max(end - Math.max(size, 0), 0);
+    return toPage(list, start, end, start > 0);
+};
+
+/**
+ * Adds a fetched page of elements to the end of the list. The ids, which
+ * are already in the list, are handled by the `onDuplicate` policy, which
+ * is `replace` by default, so the fresh elements are kept at their old
+ * positions. When nothing has changed, the same list is given back.
+ *
+ * ```typescript
+ * const nextPosts = await fetchPosts({ after: keyedList.getIdByIndex(list, list.keys.length - 1) });
+ * const newList = keyedList.appendPage(list, nextPosts);
+ * ```
+ */
+export const appendPage = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, page: T[]
+      , options: InsertOptions = {}): IdKeyedList<T, K> => {
+    const onDuplicate = options.onDuplicate || 'replace';
+    return withMutations(list, draft => {
+        page.forEach(x => draft.append(x, { onDuplicate }));
+    });
+};
+
+/**
+ * Adds a fetched page of elements to the beginning of the list, keeping
+ * the order of the page. The ids, which are already in the list, are
+ * handled the same way as by `appendPage`.
+ *
+ * ```typescript
+ * const newList = keyedList.prependPage(list, await fetchPosts({ before: keyedList.getIdByIndex(list, 0) }));
+ * ```
+ */
+export const prependPage = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, page: T[]
+      , options: InsertOptions = {}): IdKeyedList<T, K> => {
+    const onDuplicate = options.onDuplicate || 'replace';
+    return withMutations(list, draft => {
+        [ ...page ].reverse().forEach(x => draft.insert(x, { onDuplicate }));
+    });
+};
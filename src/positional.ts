@@ -0,0 +1,149 @@
+import { IdKeyedList, InsertOptions, getKey } from './KeyedList';
+import { DuplicateKeyError, InvalidOrderError } from './errors';
+import { freezeInDevMode } from './freeze';
+import { refreshIndexes } from './indexes';
+import { KeyValueType, encodeKey, hasElement } from './keys';
+import { requireUnsorted } from './sorted';
+import { backendOf, clampIndex, countOf, elementOf, hasId, insertKey, keyAt, keyCount, removeKey, reordered, requireIndex, setElement, sortedPosition, swapKeys, withBackend } from './backend';
+
+/**
+ * Adds a new element at the given index. Indices beyond the ends
+ * of the list are placing the element at the beginning or at the end.
+ * Adding an id, which is already in the list, is handled by the
+ * `onDuplicate` policy, see `append`.
+ *
+ * ```typescript
+ * const persons = [
+ *   { id: '100', name: 'Peter' },
+ *   { id: '211', name: 'John'  },
+ *   { id: '331', name: 'Steve' }
+ * ];
+ * const list = keyedList.fromArray(persons);
+ *
+ * const newList = keyedList.insertAt(list, 1, { id: '411', name: 'Emily' });
+ * // ids == [ '100', '411', '211', '331' ]
+ * ```
+ */
+export const insertAt = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, index: number, x: T
+      , options: InsertOptions = {}): IdKeyedList<T, K> => {
+    const id = getKey(list, x);
+    const encodedId = encodeKey(id);
+    let backend = backendOf(list);
+    if (hasId(list, encodedId)) {
+        switch (options.onDuplicate || 'throw') {
+            case 'ignore':
+                return list;
+            case 'replace':
+                if (list.compareWith && list.compareWith(elementOf(list, encodedId) as T, x) !== 0) {
+                    backend = removeKey(backend, id);
+                    break;
+                }
+                return refreshIndexes(list, withBackend(list, setElement(backend, encodedId, x)), [ id ]);
+            case 'move':
+                backend = removeKey(backend, id);
+                break;
+            default:
+                throw new DuplicateKeyError(id);
+        }
+    }
+    const position = list.compareWith
+        ? sortedPosition(backend, list.compareWith, x)
+        : clampIndex(index, keyCount(backend));
+    backend = insertKey(setElement(backend, encodedId, x), position, id);
+    return refreshIndexes(list, withBackend(list, backend), [ id ]);
+};
+
+/**
+ * Adds a new element right after the element with the given id.
+ * Throws a `MissingKeyError`, when the id is not in the list.
+ *
+ * ```typescript
+ * const newList = keyedList.insertAfter(list, '211', { id: '411', name: 'Emily' });
+ * // ids == [ '100', '211', '411', '331' ]
+ * ```
+ */
+export const insertAfter = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, afterId: K, x: T
+      , options?: InsertOptions): IdKeyedList<T, K> =>
+    insertAt(list, requireIndex(list, afterId) + 1, x, options);
+
+/**
+ * Adds a new element right before the element with the given id.
+ * Throws a `MissingKeyError`, when the id is not in the list.
+ *
+ * ```typescript
+ * const newList = keyedList.insertBefore(list, '211', { id: '411', name: 'Emily' });
+ * // ids == [ '100', '411', '211', '331' ]
+ * ```
+ */
+export const insertBefore = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, beforeId: K, x: T
+      , options?: InsertOptions): IdKeyedList<T, K> =>
+    insertAt(list, requireIndex(list, beforeId), x, options);
+
+/**
+ * Moves an element to a new index. The index is the position of the
+ * element in the resulting list. Throws a `MissingKeyError`, when
+ * the id is not in the list.
+ *
+ * ```typescript
+ * const newList = keyedList.move(list, '331', 0);
+ * // ids == [ '331', '100', '211' ]
+ * ```
+ */
+export const move = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, id: K, toIndex: number): IdKeyedList<T, K> => {
+    requireUnsorted(list);
+    const fromIndex = requireIndex(list, id);
+    const targetIndex = clampIndex(toIndex, countOf(list) - 1);
+    if (fromIndex === targetIndex) {
+        return list;
+    }
+    const key = keyAt(list, fromIndex) as K;
+    return freezeInDevMode(withBackend(list, insertKey(removeKey(backendOf(list), key), targetIndex, key)));
+};
+
+/**
+ * Swaps the positions of two elements. Throws a `MissingKeyError`,
+ * when any of the ids is not in the list.
+ *
+ * ```typescript
+ * const newList = keyedList.swap(list, '100', '331');
+ * // ids == [ '331', '211', '100' ]
+ * ```
+ */
+export const swap = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, leftId: K, rightId: K): IdKeyedList<T, K> => {
+    requireUnsorted(list);
+    const leftIndex = requireIndex(list, leftId);
+    const rightIndex = requireIndex(list, rightId);
+    if (leftIndex === rightIndex) {
+        return list;
+    }
+    const backend = swapKeys(backendOf(list), keyAt(list, leftIndex) as K, keyAt(list, rightIndex) as K);
+    return freezeInDevMode(withBackend(list, backend));
+};
+
+/**
+ * Applies a complete new ordering of the ids. The ids have to be
+ * a permutation of the list's keys, otherwise an `InvalidOrderError`
+ * is thrown.
+ *
+ * ```typescript
+ * const newList = keyedList.reorder(list, [ '211', '331', '100' ]);
+ * ```
+ */
+export const reorder = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, ids: K[]): IdKeyedList<T, K> => {
+    requireUnsorted(list);
+    if (ids.length !== countOf(list)) {
+        throw new InvalidOrderError(`The new order has ${ ids.length } ids, but the list has ${ countOf(list) }`);
+    }
+    const seen: { [id: string]: boolean } = {};
+    ids.forEach(id => {
+        const encodedId = encodeKey(id);
+        if (!hasId(list, encodedId)) {
+            throw new InvalidOrderError(`The id ${ JSON.stringify(id) } is not in the list`);
+        }
+        if (hasElement(seen, encodedId)) {
+            throw new InvalidOrderError(`The id ${ JSON.stringify(id) } is given more than once`);
+        }
+        seen[encodedId] = true;
+    });
+    return freezeInDevMode(withBackend(list, reordered(backendOf(list), ids)));
+};
@@ -0,0 +1,110 @@
+import { IdKeyedList } from './KeyedList';
+import { DeepReadonly } from './freeze';
+import { KeyValueType, encodeKey } from './keys';
+import { backendOf, elementOf, hasId, keyIndex } from './backend';
+
+/**
+ * Tells whether the id is in the list.
+ *
+ * ```typescript
+ * const persons = [
+ *   { id: '100', name: 'Peter', age: 42 },
+ *   { id: '211', name: 'John', age: 17  },
+ *   { id: '331', name: 'Steve', age: 35 }
+ * ];
+ * const list = keyedList.fromArray(persons);
+ *
+ * keyedList.has(list, '211'); // true
+ * ```
+ */
+export const has = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, id: K): boolean =>
+    hasId(list, encodeKey(id));
+
+/**
+ * Gets the index of the id in the list, or -1, when it is not in the list.
+ *
+ * ```typescript
+ * keyedList.indexOfId(list, '331'); // 2
+ * ```
+ */
+export const indexOfId = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, id: K): number =>
+    has(list, id) ? keyIndex(backendOf(list), id) : -1;
+
+/**
+ * Calls the function for every element, in the order of the list.
+ *
+ * ```typescript
+ * keyedList.forEach(list, (p, id, index) => console.log(index, id, p.name));
+ * ```
+ */
+export const forEach = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , callback: (x: DeepReadonly<T>, id: K, index: number) => void): void => {
+    list.keys.forEach((key, i) => callback(elementOf(list, encodeKey(key)) as DeepReadonly<T>, key, i));
+};
+
+/**
+ * Reduces the elements into a single value, in the order of the list.
+ *
+ * ```typescript
+ * const totalAge = keyedList.reduce(list, (sum, p) => sum + p.age, 0); // 94
+ * ```
+ */
+export const reduce = <T, R, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , reducer: (accumulator: R, x: DeepReadonly<T>, id: K, index: number) => R, initialValue: R): R =>
+    list.keys.reduce((accumulator, key, i) => reducer(accumulator, elementOf(list, encodeKey(key)) as DeepReadonly<T>, key, i), initialValue);
+
+/**
+ * Gets the index of the first element, which satisfies the predicate,
+ * or -1, when there is no such element.
+ *
+ * ```typescript
+ * keyedList.findIndex(list, p => p.age < 18); // 1
+ * ```
+ */
+export const findIndex = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , predicate: (x: DeepReadonly<T>, id: K, index: number) => boolean): number => {
+    const { keys } = list;
+    for (let i = 0; i < keys.length; i++) {
+        const key = keys[i];
+        if (predicate(elementOf(list, encodeKey(key)) as DeepReadonly<T>, key, i)) {
+            return i;
+        }
+    }
+    return -1;
+};
+
+/**
+ * Gets the first element, which satisfies the predicate.
+ *
+ * ```typescript
+ * const steve = keyedList.find(list, p => p.name === 'Steve');
+ * ```
+ */
+export const find = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , predicate: (x: DeepReadonly<T>, id: K, index: number) => boolean): DeepReadonly<T> | undefined => {
+    const index = findIndex(list, predicate);
+    return index < 0 ? undefined : elementOf(list, encodeKey(list.keys[index])) as DeepReadonly<T> | undefined;
+};
+
+/**
+ * Tells whether any of the elements satisfies the predicate.
+ *
+ * ```typescript
+ * keyedList.some(list, p => p.age < 18); // true
+ * ```
+ */
+export const some = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , predicate: (x: DeepReadonly<T>, id: K, index: number) => boolean): boolean =>
+    findIndex(list, predicate) >= 0;
+
+/**
+ * Tells whether all the elements are satisfying the predicate.
+ * It is true for an empty list.
+ *
+ * ```typescript
+ * keyedList.every(list, p => p.age > 0); // true
+ * ```
+ */
+export const every = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , predicate: (x: DeepReadonly<T>, id: K, index: number) => boolean): boolean =>
+    findIndex(list, (x, id, index) => !predicate(x, id, index)) < 0;
@@ -0,0 +1,113 @@
+import { ElementsWithId, IdKeyedList } from './KeyedList';
+import { DuplicateKeyError } from './errors';
+import { shallowEqual } from './equality';
+import { DeepReadonly } from './freeze';
+import { KeyValueType, encodeKey, hasElement, keyExtractor } from './keys';
+import { refreshIndexes } from './indexes';
+import { findMoved } from './sequences';
+import { sortKeys } from './sorted';
+import { elementOf, hasId } from './backend';
+
+export interface ReconcileOptions<T> {
+    /**
+     * Tells whether the local element is the same as the incoming one.
+     * Unchanged elements are kept by reference. Defaults to `shallowEqual`.
+     */
+    isEqual?: (current: T, incoming: T) => boolean;
+    /** Keep the local elements, which are missing from the incoming array */
+    keepMissing?: boolean;
+    /**
+     * The order of the result:
+     * - `incoming`: the order of the incoming array, the kept missing elements are at the end (the default)
+     * - `local`: the order of the list, the new elements are at the end
+     */
+    order?: 'incoming' | 'local';
+}
+
+export interface ReconcileResult<T, K extends KeyValueType = string> {
+    list: IdKeyedList<T, K>;
+    added: K[];
+    updated: K[];
+    removed: K[];
+    moved: K[];
+}
+
+/**
+ * Merges a fresh array, like a refetched server payload, into the list.
+ * New ids are added, changed elements are replaced and missing ones are
+ * removed. The unchanged elements are kept by reference, and when
+ * nothing has changed at all, the same list is given back. The result
+ * also tells which ids were added, updated, removed or moved.
+ *
+ * ```typescript
+ * const { list: newList, added, removed } = keyedList.reconcile(list, await fetchPosts(), {
+ *   isEqual: (current, incoming) => current.updatedAt === incoming.updatedAt
+ * });
+ * ```
+ */
+export const reconcile = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, incoming: T[]
+      , options: ReconcileOptions<T> = {}): ReconcileResult<T, K> => {
+    const keyOf = keyExtractor(list.keyBy);
+    const isEqual = options.isEqual || shallowEqual;
+    const elements: ElementsWithId<DeepReadonly<T>> = {};
+    const incomingKeys: K[] = [];
+    const added: K[] = [];
+    const updated: K[] = [];
+
+    incoming.forEach(x => {
+        const key = keyOf(x);
+        const id = encodeKey(key);
+        if (hasElement(elements, id)) {
+            throw new DuplicateKeyError(key);
+        }
+        incomingKeys.push(key);
+        if (!hasId(list, id)) {
+            added.push(key);
+            elements[id] = x as DeepReadonly<T>;
+            return;
+        }
+        const current = elementOf(list, id) as T;
+        if (isEqual(current, x)) {
+            elements[id] = current as DeepReadonly<T>;
+        } else {
+            updated.push(key);
+            elements[id] = x as DeepReadonly<T>;
+        }
+    });
+
+    const missing = list.keys.filter(key => !hasElement(elements, encodeKey(key)));
+    const removed = options.keepMissing ? [] : missing;
+    if (options.keepMissing) {
+        missing.forEach(key => {
+            const id = encodeKey(key);
+            elements[id] = list.elements[id];
+        });
+    }
+
+    const orderedKeys = options.order === 'local'
+        ? [ ...list.keys.filter(key => hasElement(elements, encodeKey(key))), ...added ]
+        : [ ...incomingKeys, ...(options.keepMissing ? missing : []) ];
+    // A sorted list keeps its own order
+    const keys = list.compareWith
+        ? sortKeys(list.compareWith, orderedKeys, elements)
+        : orderedKeys;
+
+    const keysById: { [id: string]: K } = {};
+    keys.forEach(key => {
+        keysById[encodeKey(key)] = key;
+    });
+    const before = list.keys.map(encodeKey).filter(id => hasElement(elements, id));
+    const after = keys.map(encodeKey).filter(id => hasElement(list.elements, id));
+    const moved = findMoved(before, after).map(id => keysById[id]);
+
+    if (added.length === 0 && updated.length === 0 && removed.length === 0 && moved.length === 0) {
+        return { list, added, updated, removed, moved };
+    }
+    return {
+        list: refreshIndexes(list, { ...list, keys, elements }, [ ...added, ...updated, ...removed ]),
+        added,
+        updated,
+        removed,
+        moved
+    };
+};
@@ -0,0 +1,208 @@
+import { IdKeyedList, InsertOptions, append, fromArray, removeById, sort, update } from './KeyedList';
+import { withMutations } from './batch';
+import { DeepReadonly } from './freeze';
+import { KeySelector, KeyValueType, encodeKey } from './keys';
+import { move } from './positional';
+import { reconcile } from './reconcile';
+import { countOf, elementOf, hasId } from './backend';
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * The payloads of the actions, by their operations.
+ */
+export interface KeyedListPayloads<T, K extends KeyValueType = string> {
+    add: { element: T; options?: InsertOptions };
+    addMany: { elements: T[]; options?: InsertOptions };
+    update: Partial<T>;
+    upsert: T;
+    remove: K;
+    move: { id: K; toIndex: number };
+    reset: T[];
+    sortBy: { property: keyof T; direction: SortDirection };
+}
+
+export type KeyedListOperation = keyof KeyedListPayloads<unknown>;
+
+export interface KeyedListAction<T, K extends KeyValueType = string, O extends KeyedListOperation = KeyedListOperation> {
+    type: string;
+    payload: KeyedListPayloads<T, K>[O];
+}
+
+/**
+ * The action creators of a list. The action types are prefixed by the
+ * namespace, like `posts/add`, so many lists can live in one store.
+ */
+export interface KeyedListActions<T, K extends KeyValueType = string> {
+    /** The action types, by their operations */
+    types: { [O in KeyedListOperation]: string };
+    /** Adds an element to the end, the duplicates are handled by the policy */
+    add(element: T, options?: InsertOptions): KeyedListAction<T, K, 'add'>;
+    /** Adds many elements to the end */
+    addMany(elements: T[], options?: InsertOptions): KeyedListAction<T, K, 'addMany'>;
+    /** Updates the properties of an element, the missing ids are ignored */
+    update(elemProps: Partial<T>): KeyedListAction<T, K, 'update'>;
+    /** Replaces an element, or adds it to the end, when it is new */
+    upsert(element: T): KeyedListAction<T, K, 'upsert'>;
+    /** Removes an element by its id */
+    remove(id: K): KeyedListAction<T, K, 'remove'>;
+    /** Moves an element to a new index */
+    move(id: K, toIndex: number): KeyedListAction<T, K, 'move'>;
+    /** Replaces all the elements, while the unchanged ones are kept by reference */
+    reset(elements: T[]): KeyedListAction<T, K, 'reset'>;
+    /** Sorts the list by a property */
+    sortBy(property: keyof T, direction?: SortDirection): KeyedListAction<T, K, 'sortBy'>;
+}
+
+export interface KeyedListReducerOptions<T, K extends KeyValueType = string> {
+    /** The elements of the initial state */
+    initial?: T[];
+    /** Selects the key of the elements, the `id` property is used when not given */
+    keyBy?: KeySelector<T, K>;
+}
+
+export type KeyedListReducer<T, K extends KeyValueType = string> =
+    (state: IdKeyedList<T, K> | undefined, action: { type: string }) => IdKeyedList<T, K>;
+
+const OPERATIONS: KeyedListOperation[] = [ 'add', 'addMany', 'update', 'upsert', 'remove', 'move', 'reset', 'sortBy' ];
+
+const compareBy = <T>(property: keyof T, direction: SortDirection) => (left: T, right: T): number => {
+    const order = left[property] < right[property] ? -1 : left[property] > right[property] ? 1 : 0;
+    return direction === 'desc' ? -order : order;
+};
+
+/**
+ * Creates the action creators of a list, under a namespace.
+ *
+ * ```typescript
+ * const postActions = keyedList.createActions<Post>('posts');
+ *
+ * dispatch(postActions.add(post));
+ * dispatch(postActions.sortBy('votes', 'desc'));
+ * ```
+ */
+export const createActions = <T, K extends KeyValueType = string>(namespace: string): KeyedListActions<T, K> => {
+    const types = {} as { [O in KeyedListOperation]: string };
+    OPERATIONS.forEach(operation => {
+        types[operation] = `${ namespace }/${ operation }`;
+    });
+    return {
+        types,
+        add: (element, options) => ({ type: types.add, payload: { element, options } }),
+        addMany: (elements, options) => ({ type: types.addMany, payload: { elements, options } }),
+        update: elemProps => ({ type: types.update, payload: elemProps }),
+        upsert: element => ({ type: types.upsert, payload: element }),
+        remove: id => ({ type: types.remove, payload: id }),
+        move: (id, toIndex) => ({ type: types.move, payload: { id, toIndex } }),
+        reset: elements => ({ type: types.reset, payload: elements }),
+        sortBy: (property, direction = 'asc') => ({ type: types.sortBy, payload: { property, direction } })
+    };
+};
+
+/**
+ * Creates a reducer for a list, which handles the actions of the same
+ * namespace, see `createActions`. It works with Redux and with React's
+ * `useReducer` as well. The other actions are giving back the same state.
+ *
+ * ```typescript
+ * const posts = keyedList.createReducer<Post>('posts', { initial: [] });
+ * const store = createStore(combineReducers({ posts }));
+ *
+ * // or in a component
+ * const [ list, dispatch ] = useReducer(posts, keyedList.fromArray(initialPosts));
+ * ```
+ */
+export const createReducer = <T, K extends KeyValueType = string>(namespace: string
+      , options: KeyedListReducerOptions<T, K> = {}): KeyedListReducer<T, K> => {
+    const { types } = createActions<T, K>(namespace);
+    const initialState = fromArray(options.initial || [], options.keyBy);
+
+    return (state = initialState, action) => {
+        const { payload } = action as KeyedListAction<T, K>;
+        switch (action.type) {
+            case types.add: {
+                const { element, options: insertOptions } = payload as KeyedListPayloads<T, K>['add'];
+                return append(state, element, insertOptions);
+            }
+            case types.addMany: {
+                const { elements, options: insertOptions } = payload as KeyedListPayloads<T, K>['addMany'];
+                return withMutations(state, draft => elements.forEach(x => draft.append(x, insertOptions)));
+            }
+            case types.update:
+                return update(state, payload as KeyedListPayloads<T, K>['update']);
+            case types.upsert:
+                return append(state, payload as T, { onDuplicate: 'replace' });
+            case types.remove:
+                return removeById(state, payload as K);
+            case types.move: {
+                const { id, toIndex } = payload as KeyedListPayloads<T, K>['move'];
+                return hasId(state, encodeKey(id))
+                    ? move(state, id, toIndex)
+                    : state;
+            }
+            case types.reset:
+                return reconcile(state, payload as T[]).list;
+            case types.sortBy: {
+                const { property, direction } = payload as KeyedListPayloads<T, K>['sortBy'];
+                return sort(state, compareBy(property, direction));
+            }
+            default:
+                return state;
+        }
+    };
+};
+
+export interface KeyedListSelectors<S, T, K extends KeyValueType = string> {
+    selectById(state: S, id: K): DeepReadonly<T> | undefined;
+    selectIds(state: S): ReadonlyArray<K>;
+    selectAll(state: S): ReadonlyArray<DeepReadonly<T>>;
+    selectCount(state: S): number;
+}
+
+// Gives back the previous array, when the next one has the same items
+const keepStable = <X, A extends ReadonlyArray<X>>(previous: A | undefined, next: A): A =>
+    previous !== undefined && previous.length === next.length && previous.every((x, i) => x === next[i])
+        ? previous
+        : next;
+
+/**
+ * Creates memoized selectors for a list, which is in the state at the
+ * place, which `selectList` gives back. The arrays are recomputed only,
+ * when the list has changed, and the same array is given back, as long
+ * as its items are the same. The elements are given back as they are
+ * stored, without copying.
+ *
+ * ```typescript
+ * const postSelectors = keyedList.createSelectors((state: RootState) => state.posts);
+ *
+ * const posts = useSelector(postSelectors.selectAll);
+ * const post = useSelector((state: RootState) => postSelectors.selectById(state, id));
+ * ```
+ */
+export const createSelectors = <S, T, K extends KeyValueType = string>(selectList: (state: S) => IdKeyedList<T, K>): KeyedListSelectors<S, T, K> => {
+    let idsOf: ReadonlyArray<K> | undefined;
+    let ids: ReadonlyArray<K> = [];
+    let allOf: IdKeyedList<T, K> | undefined;
+    let all: ReadonlyArray<DeepReadonly<T>> = [];
+
+    return {
+        selectById: (state, id) => elementOf(selectList(state), encodeKey(id)) as DeepReadonly<T> | undefined,
+        selectIds: state => {
+            const { keys } = selectList(state);
+            if (keys !== idsOf) {
+                ids = keepStable(idsOf && ids, keys);
+                idsOf = keys;
+            }
+            return ids;
+        },
+        selectAll: state => {
+            const list = selectList(state);
+            if (!allOf || list.keys !== allOf.keys || list.elements !== allOf.elements) {
+                all = keepStable(allOf && all, list.keys.map(key => list.elements[encodeKey(key)]));
+                allOf = list;
+            }
+            return all;
+        },
+        selectCount: state => countOf(selectList(state))
+    };
+};
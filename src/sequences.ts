@@ -0,0 +1,80 @@
+import { IdKeyedList } from './KeyedList';
+import { KeyValueType, encodeKey, hasElement } from './keys';
+
+/**
+ * Finds the longest increasing subsequence of the numbers, and gives
+ * back the indices of its members.
+ */
+const longestIncreasingSubsequence = (xs: number[]): number[] => {
+    // tails[k] is the index of the smallest tail of all subsequences with length k + 1
+    const tails: number[] = [];
+    const previous: number[] = new Array(xs.length);
+    xs.forEach((x, i) => {
+        let low = 0;
+        let high = tails.length;
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if (xs[tails[middle]] < x) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        previous[i] = low > 0 ? tails[low - 1] : -1;
+        tails[low] = i;
+    });
+    const result: number[] = [];
+    for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i >= 0; i = previous[i]) {
+        result.push(i);
+    }
+    // The members were collected from the last one
+    return result.reverse();
+};
+
+/**
+ * Tells which of the ids have to be moved, to get from one order
+ * to the other. Both arrays have to hold the same (encoded) ids. The ids,
+ * which are keeping their relative order are not moved, so the result
+ * is the smallest set of moves.
+ */
+export const findMoved = (before: string[], after: string[]): string[] => {
+    const positions: { [id: string]: number } = {};
+    before.forEach((id, i) => {
+        positions[id] = i;
+    });
+    const staying: { [id: string]: boolean } = {};
+    const order = after.map(id => hasElement(positions, id) ? positions[id] : -1);
+    longestIncreasingSubsequence(order).forEach(i => {
+        staying[after[i]] = true;
+    });
+    return after.filter(id => !hasElement(staying, id));
+};
+
+/**
+ * Gives back the keys of the added, changed and removed elements between
+ * two lists, and the smallest set of the moved ones.
+ */
+export const changedKeys = <T, K extends KeyValueType>(previous: IdKeyedList<T, K>, next: IdKeyedList<T, K>): K[] => {
+    const keysById: { [id: string]: K } = {};
+    const ids: K[] = [];
+    next.keys.forEach(key => {
+        const id = encodeKey(key);
+        keysById[id] = key;
+        if (!hasElement(previous.elements, id) || previous.elements[id] !== next.elements[id]) {
+            ids.push(key);
+        }
+    });
+    previous.keys.forEach(key => {
+        if (!hasElement(next.elements, encodeKey(key))) {
+            ids.push(key);
+        }
+    });
+    const before = previous.keys.map(encodeKey).filter(id => hasElement(next.elements, id));
+    const after = next.keys.map(encodeKey).filter(id => hasElement(previous.elements, id));
+    findMoved(before, after).forEach(id => {
+        if (previous.elements[id] === next.elements[id]) {
+            ids.push(keysById[id]);
+        }
+    });
+    return ids;
+};
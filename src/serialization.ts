@@ -0,0 +1,197 @@
+import { ElementsWithId, IdKeyedList } from './KeyedList';
+import { InvalidPayloadError } from './errors';
+import { DeepReadonly, freezeInDevMode } from './freeze';
+import { IndexDefinition, addIndex } from './indexes';
+import { KeySelector, KeyValueType, encodeKey, hasElement, isKeyValue, keyExtractor } from './keys';
+
+/**
+ * The version of the format, which is written by `serialize`.
+ */
+export const SERIALIZATION_VERSION = 1;
+
+/**
+ * The JSON shape of a serialized list. The selector of the keys is only
+ * stored, when it is a property name.
+ */
+export interface SerializedKeyedList<K extends KeyValueType = string> {
+    version: number;
+    keys: K[];
+    elements: { [id: string]: unknown };
+    keyBy?: string;
+}
+
+export type FieldReplacers<T> = { [P in keyof T]?: (value: T[P]) => unknown };
+export type FieldRevivers<T> = { [P in keyof T]?: (value: any) => T[P] };
+
+export interface SerializeOptions<T> {
+    /** Converts the fields of the elements into JSON-friendly values */
+    replacers?: FieldReplacers<T>;
+}
+
+export interface DeserializeOptions<T, K extends KeyValueType = string> {
+    /** Converts the fields of the elements back, for example into Dates */
+    revivers?: FieldRevivers<T>;
+    /**
+     * Upgrades a payload of an older version to the current one. Without it,
+     * only the current version and the untagged `{ keys, elements }` shape
+     * (version `0`) are accepted.
+     */
+    migrate?: (payload: unknown, version: number) => SerializedKeyedList<K>;
+    /** The selector of the keys, when it was not stored in the payload */
+    keyBy?: KeySelector<T, K>;
+    /** The secondary indexes to build on the list, see `addIndex` */
+    indexes?: { [name: string]: IndexDefinition<T> };
+}
+
+const convertFields = <T>(x: T, converters: { [field: string]: ((value: any) => unknown) | undefined }): T => {
+    const record = x as unknown as { [field: string]: unknown };
+    const fields = Object.keys(converters).filter(field => hasElement(record, field));
+    if (fields.length === 0) {
+        return x;
+    }
+    const converted = { ...record };
+    fields.forEach(field => {
+        const convert = converters[field];
+        if (convert) {
+            converted[field] = convert(converted[field]);
+        }
+    });
+    return converted as unknown as T;
+};
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Turns the list into a JSON string with a version tag. The fields of the
+ * elements can be converted with `replacers`, the Dates are written as
+ * ISO strings by `JSON.stringify` anyway. The indexes and the selector
+ * functions are not stored.
+ *
+ * ```typescript
+ * localStorage.setItem('posts', keyedList.serialize(list, {
+ *   replacers: { tags: keyedList.replaceMap }
+ * }));
+ * ```
+ */
+export const serialize = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, options: SerializeOptions<T> = {}): string => {
+    const replacers = options.replacers || {};
+    const elements: { [id: string]: unknown } = {};
+    list.keys.forEach(key => {
+        const id = encodeKey(key);
+        elements[id] = convertFields(list.elements[id], replacers);
+    });
+    const payload: SerializedKeyedList<K> = {
+        version: SERIALIZATION_VERSION,
+        keys: [ ...list.keys ],
+        elements
+    };
+    if (typeof list.keyBy === 'string') {
+        payload.keyBy = list.keyBy;
+    }
+    return JSON.stringify(payload);
+};
+
+/**
+ * Reads back a list, which was written by `serialize`. The payload can be
+ * a JSON string or an already parsed object. Payloads of older versions
+ * are upgraded by the `migrate` hook. Throws an `InvalidPayloadError`,
+ * when the version is not supported or when the keys and the elements
+ * are not consistent.
+ *
+ * ```typescript
+ * const list = keyedList.deserialize<PostItem>(localStorage.getItem('posts'), {
+ *   revivers: { createdAt: keyedList.reviveDate, tags: keyedList.reviveMap },
+ *   migrate: (payload, version) => upgradePosts(payload, version)
+ * });
+ * ```
+ */
+export const deserialize = <T, K extends KeyValueType = string>(input: string | object
+      , options: DeserializeOptions<T, K> = {}): IdKeyedList<T, K> => {
+    let payload: unknown = input;
+    if (typeof input === 'string') {
+        try {
+            payload = JSON.parse(input);
+        } catch (e) {
+            throw new InvalidPayloadError(`The payload is not valid JSON: ${ e.message }`);
+        }
+    }
+    if (!isObject(payload)) {
+        throw new InvalidPayloadError('The payload is not an object');
+    }
+    const version = payload.version === undefined ? 0 : payload.version;
+    if (typeof version !== 'number' || version > SERIALIZATION_VERSION) {
+        throw new InvalidPayloadError(`The payload version ${ JSON.stringify(version) } is not supported`);
+    }
+    if (version < SERIALIZATION_VERSION) {
+        if (options.migrate) {
+            payload = options.migrate(payload, version);
+        } else if (version !== 0) {
+            throw new InvalidPayloadError(`The payload version ${ version } has to be migrated`);
+        }
+    }
+    if (!isObject(payload) || !Array.isArray(payload.keys) || !isObject(payload.elements)) {
+        throw new InvalidPayloadError('The payload has to have a keys array and an elements object');
+    }
+
+    if (payload.keyBy !== undefined && typeof payload.keyBy !== 'string') {
+        throw new InvalidPayloadError('The keyBy of the payload has to be a property name');
+    }
+    const keyBy = options.keyBy || payload.keyBy as KeySelector<T, K> | undefined;
+    const keyOf = keyExtractor(keyBy);
+    const revivers = options.revivers || {};
+    const keys = payload.keys as unknown[];
+    const stored = payload.elements;
+    const elements: ElementsWithId<DeepReadonly<T>> = {};
+    keys.forEach(key => {
+        if (!isKeyValue(key)) {
+            throw new InvalidPayloadError(`The key ${ JSON.stringify(key) } is not a string, a number or a composite key`);
+        }
+        const id = encodeKey(key);
+        if (hasElement(elements, id)) {
+            throw new InvalidPayloadError(`The key ${ JSON.stringify(key) } is in the payload more than once`);
+        }
+        if (!hasElement(stored, id) || !isObject(stored[id])) {
+            throw new InvalidPayloadError(`The key ${ JSON.stringify(key) } has no element`);
+        }
+        const element = convertFields(stored[id] as unknown as T, revivers);
+        if (encodeKey(keyOf(element)) !== id) {
+            throw new InvalidPayloadError(`The element of the key ${ JSON.stringify(key) } has a different key`);
+        }
+        elements[id] = element as DeepReadonly<T>;
+    });
+    if (Object.keys(stored).length !== keys.length) {
+        throw new InvalidPayloadError('The payload has elements, which are not in the keys');
+    }
+
+    let list: IdKeyedList<T, K> = { keys: [ ...keys ] as K[], elements };
+    if (keyBy !== undefined) {
+        list.keyBy = keyBy;
+    }
+    const indexes = options.indexes || {};
+    Object.keys(indexes).forEach(name => {
+        list = addIndex(list, name, indexes[name]);
+    });
+    return freezeInDevMode(list);
+};
+
+/** Revives a Date from its ISO string */
+export const reviveDate = (value: string | number): Date => new Date(value);
+
+/** Writes a Map as an array of its entries */
+export const replaceMap = <MK, MV>(value: Map<MK, MV>): Array<[MK, MV]> => {
+    const entries: Array<[MK, MV]> = [];
+    value.forEach((v, k) => {
+        entries.push([ k, v ]);
+    });
+    return entries;
+};
+
+/** Revives a Map from the array of its entries */
+export const reviveMap = <MK, MV>(value: Array<[MK, MV]>): Map<MK, MV> => {
+    const map = new Map<MK, MV>();
+    value.forEach(([ k, v ]) => {
+        map.set(k, v);
+    });
+    return map;
+};
@@ -0,0 +1,142 @@
+import { ElementsWithId, IdKeyedList } from './KeyedList';
+import { DeepReadonly } from './freeze';
+import { rebuildIndexes } from './indexes';
+import { KeyValueType, encodeKey, hasElement } from './keys';
+import { Comparator, sortKeys } from './sorted';
+
+/**
+ * Decides which element is kept, when both lists hold the same id:
+ * - `left`: keep the element of the left list (the default)
+ * - `right`: keep the element of the right list
+ * - `merge`: merge the properties of the right element into the left one
+ * - a function, which gives back the element to keep
+ */
+export type ConflictResolver<T, K extends KeyValueType = string> = 'left' | 'right' | 'merge' | ((left: T, right: T, id: K) => T);
+
+/**
+ * The order of the result:
+ * - `left`: the order of the left list, followed by the elements of the right one (the default)
+ * - `right`: the order of the right list, followed by the elements of the left one
+ * - a comparator, which sorts the result
+ */
+export type SetOrder<T> = 'left' | 'right' | Comparator<T>;
+
+export interface SetOptions<T, K extends KeyValueType = string> {
+    onConflict?: ConflictResolver<T, K>;
+    order?: SetOrder<T>;
+}
+
+const resolverOf = <T, K extends KeyValueType>(onConflict: ConflictResolver<T, K> = 'left'): ((left: T, right: T, id: K) => T) => {
+    switch (onConflict) {
+        case 'left':
+            return left => left;
+        case 'right':
+            return (left, right) => right;
+        case 'merge':
+            return (left, right) => ({ ...left, ...right });
+        default:
+            return onConflict;
+    }
+};
+
+// Gives back the keys of the list, which are not in the other one
+const keysNotIn = <T, K extends KeyValueType>(list: IdKeyedList<T, K>, other: IdKeyedList<T, K>): K[] =>
+    list.keys.filter(key => !hasElement(other.elements, encodeKey(key)));
+
+// Builds the result with the key selector, the indexes and the comparator of the left list
+const combine = <T, K extends KeyValueType>(left: IdKeyedList<T, K>, right: IdKeyedList<T, K>, keys: K[]
+      , options: SetOptions<T, K>): IdKeyedList<T, K> => {
+    const resolve = resolverOf(options.onConflict);
+    const elements: ElementsWithId<DeepReadonly<T>> = {};
+    keys.forEach(key => {
+        const id = encodeKey(key);
+        elements[id] = !hasElement(right.elements, id)
+            ? left.elements[id]
+            : !hasElement(left.elements, id)
+                ? right.elements[id]
+                : resolve(left.elements[id] as T, right.elements[id] as T, key) as DeepReadonly<T>;
+    });
+    // A sorted list keeps the result sorted as well
+    const compareWith = left.compareWith || (typeof options.order === 'function' ? options.order : undefined);
+    const sortedKeys = compareWith ? sortKeys(compareWith, keys, elements) : keys;
+    const unchanged = sortedKeys.length === left.keys.length
+        && sortedKeys.every((key, i) => encodeKey(key) === encodeKey(left.keys[i]) && elements[encodeKey(key)] === left.elements[encodeKey(key)]);
+    return unchanged
+        ? left
+        : rebuildIndexes({ ...left, keys: sortedKeys, elements });
+};
+
+/**
+ * Combines the elements of two lists. The ids, which are in both of
+ * them, are resolved by `onConflict`, and they are kept at their place
+ * in the ordering list. The result has the key selector, the indexes and
+ * the sorting of the left list. When the right list adds and changes
+ * nothing, the left list is given back.
+ *
+ * ```typescript
+ * const cached = keyedList.fromArray([ { id: '1', title: 'Old' }, { id: '2', title: 'Two' } ]);
+ * const fetched = keyedList.fromArray([ { id: '1', title: 'New' }, { id: '3', title: 'Three' } ]);
+ *
+ * const all = keyedList.union(cached, fetched, { onConflict: 'right' });
+ * // [ { id: '1', title: 'New' }, { id: '2', ... }, { id: '3', ... } ]
+ * const newestFirst = keyedList.union(cached, fetched, { onConflict: 'merge', order: 'right' });
+ * // ids == [ '1', '3', '2' ]
+ * ```
+ */
+export const union = <T, K extends KeyValueType = string>(left: IdKeyedList<T, K>, right: IdKeyedList<T, K>
+      , options: SetOptions<T, K> = {}): IdKeyedList<T, K> => {
+    const keys = options.order === 'right'
+        ? [ ...right.keys, ...keysNotIn(left, right) ]
+        : [ ...left.keys, ...keysNotIn(right, left) ];
+    return combine(left, right, keys, options);
+};
+
+/**
+ * The same as `union`.
+ */
+export const concat = union;
+
+/**
+ * Keeps the ids, which are in both lists. The elements are resolved by
+ * `onConflict`, and the order of the left list is kept, unless `order`
+ * says otherwise.
+ *
+ * ```typescript
+ * const visible = keyedList.intersection(posts, searchResults, { order: 'right' }); // in the order of relevance
+ * ```
+ */
+export const intersection = <T, K extends KeyValueType = string>(left: IdKeyedList<T, K>, right: IdKeyedList<T, K>
+      , options: SetOptions<T, K> = {}): IdKeyedList<T, K> => {
+    const ordering = options.order === 'right' ? right : left;
+    const other = ordering === left ? right : left;
+    const keys = ordering.keys.filter(key => hasElement(other.elements, encodeKey(key)));
+    return combine(left, right, keys, options);
+};
+
+/**
+ * Keeps the elements of the left list, which are not in the right one.
+ * There are no conflicts here, so only a comparator `order` is used.
+ *
+ * ```typescript
+ * const unread = keyedList.difference(messages, readMessages);
+ * ```
+ */
+export const difference = <T, K extends KeyValueType = string>(left: IdKeyedList<T, K>, right: IdKeyedList<T, K>
+      , options: SetOptions<T, K> = {}): IdKeyedList<T, K> =>
+    combine(left, right, keysNotIn(left, right), options);
+
+/**
+ * Keeps the elements, which are only in one of the lists. The elements
+ * of the left list are first, unless `order` says otherwise.
+ *
+ * ```typescript
+ * const changedSelection = keyedList.symmetricDifference(selectedBefore, selectedNow);
+ * ```
+ */
+export const symmetricDifference = <T, K extends KeyValueType = string>(left: IdKeyedList<T, K>, right: IdKeyedList<T, K>
+      , options: SetOptions<T, K> = {}): IdKeyedList<T, K> => {
+    const keys = options.order === 'right'
+        ? [ ...keysNotIn(right, left), ...keysNotIn(left, right) ]
+        : [ ...keysNotIn(left, right), ...keysNotIn(right, left) ];
+    return combine(left, right, keys, options);
+};
@@ -0,0 +1,81 @@
+import { IdKeyedList, sort } from './KeyedList';
+import { InvalidOrderError, KeyedListError } from './errors';
+import { DeepReadonly, freezeInDevMode } from './freeze';
+import { KeyValueType, encodeKey } from './keys';
+import { slice } from './pagination';
+import { backendOf, keyCount, sortedPosition, withSettings } from './backend';
+
+export type Comparator<T> = (lval: T, rval: T) => number;
+
+/**
+ * Sorts the keys by their elements. The sort is stable, so the equal
+ * elements are keeping their order.
+ */
+export const sortKeys = <T, K extends KeyValueType>(compareWith: Comparator<T>, keys: ReadonlyArray<K>
+      , elements: { readonly [id: string]: DeepReadonly<T> }): K[] =>
+    keys
+        .map((key, i) => ({ key, elem: elements[encodeKey(key)] as T, i }))
+        .sort((left, right) => compareWith(left.elem, right.elem) || left.i - right.i)
+        .map(pair => pair.key);
+
+/**
+ * Throws an `InvalidOrderError`, when the list is kept sorted, so its
+ * elements can not be placed by hand.
+ */
+export const requireUnsorted = <T, K extends KeyValueType>(list: IdKeyedList<T, K>): void => {
+    if (list.compareWith) {
+        throw new InvalidOrderError('The list is kept sorted, its elements can not be moved');
+    }
+};
+
+/**
+ * Sorts the list and keeps it sorted from then on. The comparator is
+ * stored on the list, and `append`, `insert` and the other functions,
+ * which are adding elements, are placing them at their sorted positions
+ * with a binary search. `update` moves an element, when its place
+ * changes. Moving the elements by hand (`move`, `swap`, `reorder`)
+ * throws an `InvalidOrderError`.
+ *
+ * ```typescript
+ * let leaderboard = keyedList.keepSorted(keyedList.fromArray(players), (left, right) => right.score - left.score);
+ *
+ * leaderboard = keyedList.append(leaderboard, { id: 'p4', score: 120 }); // placed by its score
+ * leaderboard = keyedList.update(leaderboard, { id: 'p1', score: 200 }); // moves up, if needed
+ * ```
+ */
+export const keepSorted = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, compareWith: Comparator<T>): IdKeyedList<T, K> =>
+    freezeInDevMode(withSettings(sort(list, compareWith), { compareWith }));
+
+/**
+ * Stops keeping the list sorted, the elements are keeping their current order.
+ */
+export const stopSorting = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>): IdKeyedList<T, K> => {
+    if (!list.compareWith) {
+        return list;
+    }
+    return freezeInDevMode(withSettings(list, { compareWith: undefined }));
+};
+
+/**
+ * Gets the elements between two bounds of a sorted list, as a new list.
+ * The bounds are compared with the comparator of the list, so they only
+ * need the properties, which the list is sorted by. Both of them are
+ * inclusive, and a missing bound means no limit. Throws a `KeyedListError`,
+ * when the list is not kept sorted.
+ *
+ * ```typescript
+ * const timeline = keyedList.keepSorted(list, (left, right) => left.createdAt - right.createdAt);
+ *
+ * const january = keyedList.range(timeline, { createdAt: Date.UTC(2020, 0, 1) }, { createdAt: Date.UTC(2020, 0, 31) });
+ * const sinceMarch = keyedList.range(timeline, { createdAt: Date.UTC(2020, 2, 1) });
+ * ```
+ */
+export const range = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, from?: Partial<T>, to?: Partial<T>): IdKeyedList<T, K> => {
+    if (!list.compareWith) {
+        throw new KeyedListError('Only the lists, which are kept sorted, can be queried by a range');
+    }
+    const backend = backendOf(list);
+    const start = from === undefined ? 0 : sortedPosition(backend, list.compareWith, from as T, true);
+    const end = to === undefined ? keyCount(backend) : sortedPosition(backend, list.compareWith, to as T);
+    return slice(list, start, Math.max(start, end));
+};
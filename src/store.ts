@@ -0,0 +1,140 @@
+import { IdKeyedList, InsertOptions, StrictOptions, append, getById, getKey, insert, removeById, sort, update } from './KeyedList';
+import { KeyedListDraft, withMutations } from './batch';
+import { DeepReadonly } from './freeze';
+import { KeyValueType, encodeKey, hasElement } from './keys';
+import { insertAt, move } from './positional';
+import { changedKeys } from './sequences';
+import { Comparator } from './sorted';
+import { elementOf, hasId } from './backend';
+
+export type StoreOperation = 'append' | 'insert' | 'insertAt' | 'update' | 'removeById' | 'move' | 'sort' | 'withMutations' | 'set';
+
+/**
+ * Describes a write of a store, see `createListStore`.
+ */
+export interface KeyedListChange<T, K extends KeyValueType = string> {
+    operation: StoreOperation;
+    /** The ids of the added, changed, removed or moved elements */
+    ids: K[];
+    previous: IdKeyedList<T, K>;
+    next: IdKeyedList<T, K>;
+}
+
+export type ChangeListener<T, K extends KeyValueType = string> = (change: KeyedListChange<T, K>) => void;
+export type ElementListener<T, K extends KeyValueType = string> = (element: DeepReadonly<T> | undefined, change: KeyedListChange<T, K>) => void;
+
+/**
+ * A mutable container of a list, which notifies its subscribers about
+ * every write. `getSnapshot` and `subscribe` can be given to React's
+ * `useSyncExternalStore` as they are.
+ */
+export interface KeyedListStore<T, K extends KeyValueType = string> {
+    /** Gets the current list, the same one until the next change */
+    getSnapshot(): IdKeyedList<T, K>;
+    /** Gets an element of the current list */
+    getById(id: K): DeepReadonly<T> | undefined;
+    /** Calls the listener on every change, gives back the unsubscribe function */
+    subscribe(listener: ChangeListener<T, K>): () => void;
+    /** Calls the listener, only when the element with the id is added, changed or removed */
+    subscribeToId(id: K, listener: ElementListener<T, K>): () => void;
+    append(x: T, options?: InsertOptions): void;
+    insert(x: T, options?: InsertOptions): void;
+    insertAt(index: number, x: T, options?: InsertOptions): void;
+    update(elemProps: Partial<T>, options?: StrictOptions): void;
+    removeById(id: K, options?: StrictOptions): void;
+    move(id: K, toIndex: number): void;
+    sort(compareWith: Comparator<T>): void;
+    withMutations(mutate: (draft: KeyedListDraft<T, K>) => void): void;
+    /** Replaces the whole list */
+    set(list: IdKeyedList<T, K>): void;
+}
+
+const remove = <L>(listeners: L[], listener: L) => () => {
+    const index = listeners.indexOf(listener);
+    if (index >= 0) {
+        listeners.splice(index, 1);
+    }
+};
+
+/**
+ * Creates a store, which holds a list and notifies its subscribers
+ * about every write. The changes are telling the operation, the affected
+ * ids, and the previous and the next lists. The subscribers of an id
+ * are only notified, when that element changes, so the rows of a list
+ * can be rendered independently.
+ *
+ * ```typescript
+ * const store = keyedList.createListStore(keyedList.fromArray(posts));
+ *
+ * store.subscribe(({ operation, ids }) => console.log(operation, ids));
+ * store.append({ id: '411', title: 'Hello' }); // append [ '411' ]
+ *
+ * // in React
+ * const list = useSyncExternalStore(store.subscribe, store.getSnapshot);
+ * const post = useSyncExternalStore(
+ *   onChange => store.subscribeToId(id, onChange),
+ *   () => store.getById(id)
+ * );
+ * ```
+ */
+export const createListStore = <T, K extends KeyValueType = string>(initial: IdKeyedList<T, K> = { keys: [], elements: {} }): KeyedListStore<T, K> => {
+    let current = initial;
+    const listeners: ChangeListener<T, K>[] = [];
+    const elementListeners: { [id: string]: ElementListener<T, K>[] } = {};
+
+    const commit = (operation: StoreOperation, next: IdKeyedList<T, K>, ids?: K[]) => {
+        if (next === current) {
+            return;
+        }
+        const previous = current;
+        current = next;
+        const change: KeyedListChange<T, K> = {
+            operation,
+            ids: ids || changedKeys(previous, next),
+            previous,
+            next
+        };
+        // The listeners are copied, so they can unsubscribe while being notified
+        [ ...listeners ].forEach(listener => listener(change));
+        Object.keys(elementListeners).forEach(id => {
+            if (elementOf(previous, id) !== elementOf(next, id) || hasId(previous, id) !== hasId(next, id)) {
+                const element = elementOf(next, id) as DeepReadonly<T> | undefined;
+                [ ...elementListeners[id] ].forEach(listener => listener(element, change));
+            }
+        });
+    };
+
+    return {
+        getSnapshot: () => current,
+        getById: id => getById(current, id),
+        subscribe: listener => {
+            listeners.push(listener);
+            return remove(listeners, listener);
+        },
+        subscribeToId: (id, listener) => {
+            const encodedId = encodeKey(id);
+            if (!hasElement(elementListeners, encodedId)) {
+                elementListeners[encodedId] = [];
+            }
+            const idListeners = elementListeners[encodedId];
+            idListeners.push(listener);
+            const unsubscribe = remove(idListeners, listener);
+            return () => {
+                unsubscribe();
+                if (idListeners.length === 0 && elementListeners[encodedId] === idListeners) {
+                    delete elementListeners[encodedId];
+                }
+            };
+        },
+        // The writes of a single element know its key, so only the others compare the lists
+        append: (x, options) => commit('append', append(current, x, options), [ getKey(current, x) ]),
+        insert: (x, options) => commit('insert', insert(current, x, options), [ getKey(current, x) ]),
+        insertAt: (index, x, options) => commit('insertAt', insertAt(current, index, x, options), [ getKey(current, x) ]),
+        update: (elemProps, options) => commit('update', update(current, elemProps, options), [ getKey(current, elemProps) ]),
+        removeById: (id, options) => commit('removeById', removeById(current, id, options), [ id ]),
+        move: (id, toIndex) => commit('move', move(current, id, toIndex), [ id ]),
+        sort: compareWith => commit('sort', sort(current, compareWith)),
+        withMutations: mutate => commit('withMutations', withMutations(current, mutate)),
+        set: list => commit('set', list)
+    };
+};
@@ -0,0 +1,145 @@
+import { ElementsWithId, IdKeyedList } from './KeyedList';
+import { DuplicateKeyError, KeyedListError } from './errors';
+import { DeepReadonly, freezeInDevMode } from './freeze';
+import { refreshIndexes } from './indexes';
+import { KeyExtractor, KeyName, KeySelector, KeyValueType, SelectedKey, encodeKey, hasElement, keyExtractor } from './keys';
+
+/**
+ * Keeps the elements, which are satisfying the predicate, as a new list.
+ * Unlike `filter`, the result is a keyed list, with the same key selector
+ * and indexes. When every element is kept, the same list is given back.
+ *
+ * ```typescript
+ * const persons = [
+ *   { id: '100', name: 'Peter', age: 42 },
+ *   { id: '211', name: 'John', age: 17  },
+ *   { id: '331', name: 'Steve', age: 35 }
+ * ];
+ * const list = keyedList.fromArray(persons);
+ *
+ * const adults = keyedList.filterList(list, p => p.age >= 18);
+ * // ids == [ '100', '331' ]
+ * ```
+ */
+export const filterList = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , predicate: (x: DeepReadonly<T>, id: K, index: number) => boolean): IdKeyedList<T, K> => {
+    const keys: K[] = [];
+    const removed: K[] = [];
+    const elements: ElementsWithId<DeepReadonly<T>> = {};
+    list.keys.forEach((key, i) => {
+        const id = encodeKey(key);
+        const x = list.elements[id];
+        if (predicate(x, key, i)) {
+            keys.push(key);
+            elements[id] = x;
+        } else {
+            removed.push(key);
+        }
+    });
+    if (removed.length === 0) {
+        return list;
+    }
+    return refreshIndexes(list, { ...list, keys, elements }, removed);
+};
+
+/**
+ * Removes the elements, which are satisfying the predicate. It is the
+ * opposite of `filterList`.
+ *
+ * ```typescript
+ * const minors = keyedList.reject(list, p => p.age >= 18);
+ * // ids == [ '211' ]
+ * ```
+ */
+export const reject = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , predicate: (x: DeepReadonly<T>, id: K, index: number) => boolean): IdKeyedList<T, K> =>
+    filterList(list, (x, id, index) => !predicate(x, id, index));
+
+/**
+ * Maps every element to a new value, while the ids and the order are
+ * kept. The type of the elements can change, so the key selector of the
+ * list can not be kept. When the list has one, a selector for the new
+ * elements has to be given. The new elements have to have the same keys,
+ * by the given selector or by their `id` property, otherwise a
+ * `KeyedListError` is thrown. The indexes are dropped, since they were
+ * declared for the old elements.
+ *
+ * ```typescript
+ * const names = keyedList.mapValues(list, p => ({ id: p.id, label: p.name.toUpperCase() }));
+ * keyedList.getById(names, '211'); // { id: '211', label: 'JOHN' }
+ *
+ * const bySlug = keyedList.fromArray(posts, 'slug');
+ * const titles = keyedList.mapValues(bySlug, p => ({ slug: p.slug, title: p.title }), 'slug');
+ * ```
+ */
+export function mapValues<T, U, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , mapper: (x: DeepReadonly<T>, id: K, index: number) => U): IdKeyedList<U, K>;
+export function mapValues<T, U, N extends string, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , mapper: (x: DeepReadonly<T>, id: K, index: number) => U, keyBy: N): IdKeyedList<U, K>;
+export function mapValues<T, U, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , mapper: (x: DeepReadonly<T>, id: K, index: number) => U, keyBy: KeyExtractor<U, K>): IdKeyedList<U, K>;
+export function mapValues<T, U, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , mapper: (x: DeepReadonly<T>, id: K, index: number) => U, keyBy: KeySelector<U, K> | undefined): IdKeyedList<U, K>;
+export function mapValues<T, U, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , mapper: (x: DeepReadonly<T>, id: K, index: number) => U, keyBy?: KeySelector<U, K>): IdKeyedList<U, K> {
+    if (list.keyBy !== undefined && keyBy === undefined) {
+        throw new KeyedListError('The list has a key selector, so the new elements need one as well');
+    }
+    const keyOf = keyExtractor(keyBy);
+    const elements: ElementsWithId<DeepReadonly<U>> = {};
+    list.keys.forEach((key, i) => {
+        const id = encodeKey(key);
+        const x = mapper(list.elements[id], key, i);
+        const newKey = keyOf(x);
+        if (encodeKey(newKey) !== id) {
+            throw new KeyedListError(`The new element of ${ JSON.stringify(key) } has the key ${ JSON.stringify(newKey) }`);
+        }
+        elements[id] = x as DeepReadonly<U>;
+    });
+    const mapped: IdKeyedList<U, K> = { keys: list.keys, elements };
+    if (keyBy !== undefined) {
+        mapped.keyBy = keyBy;
+    }
+    return freezeInDevMode(mapped);
+}
+
+/**
+ * Maps every element to any number of new elements, and collects them
+ * into a new list, in order. The new elements are keyed by the given
+ * selector, or by their `id` property. Throws a `DuplicateKeyError`,
+ * when two of the new elements have the same key.
+ *
+ * ```typescript
+ * const orders = keyedList.fromArray([ { id: 'o1', lines: [ { id: 'l1' }, { id: 'l2' } ] } ]);
+ * const lines = keyedList.flatMap(orders, order => order.lines);
+ * // ids == [ 'l1', 'l2' ]
+ * ```
+ */
+export function flatMap<T, U, K extends KeyValueType = string, KU extends KeyValueType = SelectedKey<U>>(list: IdKeyedList<T, K>
+      , mapper: (x: DeepReadonly<T>, id: K, index: number) => ReadonlyArray<U>): IdKeyedList<U, KU>;
+export function flatMap<T, U, N extends string, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , mapper: (x: DeepReadonly<T>, id: K, index: number) => ReadonlyArray<U>, keyBy: N): IdKeyedList<U, SelectedKey<U, N & KeyName<U>>>;
+export function flatMap<T, U, KU extends KeyValueType, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , mapper: (x: DeepReadonly<T>, id: K, index: number) => ReadonlyArray<U>, keyBy: KeyExtractor<U, KU>): IdKeyedList<U, KU>;
+export function flatMap<T, U, KU extends KeyValueType, K extends KeyValueType = string>(list: IdKeyedList<T, K>
+      , mapper: (x: DeepReadonly<T>, id: K, index: number) => ReadonlyArray<U>, keyBy?: KeySelector<U, KU>): IdKeyedList<U, KU> {
+    const keyOf = keyExtractor(keyBy);
+    const keys: KU[] = [];
+    const elements: ElementsWithId<DeepReadonly<U>> = {};
+    list.keys.forEach((key, i) => {
+        mapper(list.elements[encodeKey(key)], key, i).forEach(x => {
+            const newKey = keyOf(x);
+            const id = encodeKey(newKey);
+            if (hasElement(elements, id)) {
+                throw new DuplicateKeyError(newKey);
+            }
+            keys.push(newKey);
+            elements[id] = x as DeepReadonly<U>;
+        });
+    });
+    const flattened: IdKeyedList<U, KU> = { keys, elements };
+    if (keyBy !== undefined) {
+        flattened.keyBy = keyBy;
+    }
+    return freezeInDevMode(flattened);
+}
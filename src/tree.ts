@@ -0,0 +1,411 @@
+import { ElementsWithId, IdKeyedList, StrictOptions, update } from './KeyedList';
+import { CycleError, DuplicateKeyError, MissingKeyError, OrphanError } from './errors';
+import { DeepReadonly, freezeInDevMode } from './freeze';
+import { refreshIndexes } from './indexes';
+import { KeySelector, KeyValueType, SelectedKey, encodeKey, findKeyIndex, hasElement, keyExtractor, keysEqual } from './keys';
+
+export interface TreeOptions<T> {
+    /**
+     * The property, which holds the id of the parent, `parentId` by default.
+     * The roots are having `undefined` or `null` there.
+     */
+    parentKey?: keyof T;
+}
+
+export interface MoveSubtreeOptions<T> extends TreeOptions<T> {
+    /** The position among the new siblings, the subtree becomes the last child by default */
+    index?: number;
+}
+
+export interface NestedOptions<T, C extends string = 'children'> extends TreeOptions<T> {
+    /** The property, which holds the children of a node, `children` by default */
+    childrenKey?: C;
+}
+
+/**
+ * An element of a tree, with its children nested into it, see `toNested`.
+ */
+export type NestedNode<T, C extends string = 'children'> = T & { [P in C]: NestedNode<T, C>[] };
+
+// A node with its children and any other properties
+type NodeProperties<T> = Partial<T> & { [property: string]: unknown };
+
+/**
+ * A node of a nested tree, which is not yet keyed, see `fromNested`. The
+ * nodes of `toNested` are accepted as they are, while the other ones can
+ * hold their children under any property.
+ */
+export type NestedInput<T> = Partial<T> | NodeProperties<T>;
+
+/**
+ * An element visited by `depthFirst` or `breadthFirst`, with its depth,
+ * which is 0 for the roots.
+ */
+export interface TreeEntry<T, K extends KeyValueType = string> {
+    id: K;
+    element: DeepReadonly<T>;
+    depth: number;
+}
+
+const DEFAULT_PARENT_KEY = 'parentId';
+
+interface TreeStructure<K> {
+    roots: K[];
+    /** The ids of the children, in list order, by the encoded ids of their parents */
+    children: { [id: string]: K[] };
+}
+
+const parentKeyOf = <T>(options: TreeOptions<T>): keyof T =>
+    options.parentKey || DEFAULT_PARENT_KEY as keyof T;
+
+const parentOf = <T, K extends KeyValueType>(x: DeepReadonly<T>, parentKey: keyof T): K | undefined => {
+    const parent = (x as T)[parentKey] as unknown as K | null | undefined;
+    return parent === null ? undefined : parent;
+};
+
+const buildTree = <T, K extends KeyValueType>(list: IdKeyedList<T, K>, options: TreeOptions<T>): TreeStructure<K> => {
+    const parentKey = parentKeyOf(options);
+    const tree: TreeStructure<K> = { roots: [], children: {} };
+    list.keys.forEach(key => {
+        const parent = parentOf<T, K>(list.elements[encodeKey(key)], parentKey);
+        if (parent === undefined) {
+            tree.roots.push(key);
+            return;
+        }
+        const parentId = encodeKey(parent);
+        if (!hasElement(tree.children, parentId)) {
+            tree.children[parentId] = [];
+        }
+        tree.children[parentId].push(key);
+    });
+    return tree;
+};
+
+const childrenIn = <K extends KeyValueType>(tree: TreeStructure<K>, key: K): K[] => {
+    const id = encodeKey(key);
+    return hasElement(tree.children, id) ? tree.children[id] : [];
+};
+
+// The ids under an element, in depth-first order, without the element itself
+const descendantKeys = <T, K extends KeyValueType>(list: IdKeyedList<T, K>, id: K, options: TreeOptions<T>): K[] => {
+    const tree = buildTree(list, options);
+    const visited: { [id: string]: boolean } = { [encodeKey(id)]: true };
+    const keys: K[] = [];
+    const stack = [ ...childrenIn(tree, id) ].reverse();
+    while (stack.length > 0) {
+        const key = stack.pop() as K;
+        const encoded = encodeKey(key);
+        if (hasElement(visited, encoded)) {
+            // Every element has one parent, so a loop leads back through the starting one
+            throw new CycleError(id);
+        }
+        visited[encoded] = true;
+        keys.push(key);
+        stack.push(...[ ...childrenIn(tree, key) ].reverse());
+    }
+    return keys;
+};
+
+const ancestorKeys = <T, K extends KeyValueType>(list: IdKeyedList<T, K>, id: K, options: TreeOptions<T>): K[] => {
+    const parentKey = parentKeyOf(options);
+    const visited: { [id: string]: boolean } = {};
+    const keys: K[] = [];
+    let key = id;
+    let encoded = encodeKey(key);
+    while (hasElement(list.elements, encoded)) {
+        visited[encoded] = true;
+        const parent = parentOf<T, K>(list.elements[encoded], parentKey);
+        if (parent === undefined) {
+            return keys;
+        }
+        encoded = encodeKey(parent);
+        if (!hasElement(list.elements, encoded)) {
+            throw new OrphanError(key, parent);
+        }
+        if (hasElement(visited, encoded)) {
+            throw new CycleError(parent);
+        }
+        keys.push(parent);
+        key = parent;
+    }
+    return keys;
+};
+
+/**
+ * Gets the children of an element, in the order of the list. Without
+ * a parent id (`null`), the roots are given back.
+ *
+ * ```typescript
+ * const comments = keyedList.fromArray([
+ *   { id: 'c1', parentId: null, text: 'First' },
+ *   { id: 'c2', parentId: 'c1', text: 'Reply' },
+ *   { id: 'c3', parentId: null, text: 'Second' }
+ * ]);
+ *
+ * keyedList.getChildren(comments, 'c1'); // [ { id: 'c2', ... } ]
+ * keyedList.getChildren(comments, null); // [ { id: 'c1', ... }, { id: 'c3', ... } ]
+ * ```
+ */
+export const getChildren = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, parentId: K | null
+      , options: TreeOptions<T> = {}): DeepReadonly<T>[] => {
+    const parentKey = parentKeyOf(options);
+    return list.keys
+        .map(key => list.elements[encodeKey(key)])
+        .filter(x => {
+            const parent = parentOf<T, K>(x, parentKey);
+            return parentId === null ? parent === undefined : parent !== undefined && keysEqual(parent, parentId);
+        });
+};
+
+/**
+ * Gets the ancestors of an element, the parent first and the root last.
+ * Throws an `OrphanError`, when an ancestor is missing from the list, and
+ * a `CycleError`, when the element is its own ancestor.
+ *
+ * ```typescript
+ * keyedList.getAncestors(folders, 'photos'); // [ { id: 'pictures', ... }, { id: 'home', ... } ]
+ * ```
+ */
+export const getAncestors = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, id: K
+      , options: TreeOptions<T> = {}): DeepReadonly<T>[] =>
+    ancestorKeys(list, id, options).map(key => list.elements[encodeKey(key)]);
+
+/**
+ * Gets the elements under an element, in depth-first order, where the
+ * children are following their parents. Throws a `CycleError`, when the
+ * element is its own descendant.
+ *
+ * ```typescript
+ * keyedList.getDescendants(folders, 'home'); // [ pictures, photos, documents ]
+ * ```
+ */
+export const getDescendants = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, id: K
+      , options: TreeOptions<T> = {}): DeepReadonly<T>[] =>
+    descendantKeys(list, id, options).map(key => list.elements[encodeKey(key)]);
+
+/**
+ * Checks, that every parent is in the list, and that the parents are not
+ * forming cycles. Throws an `OrphanError` or a `CycleError` otherwise.
+ *
+ * ```typescript
+ * try {
+ *   keyedList.validateTree(folders);
+ * } catch (e) {
+ *   if (e instanceof keyedList.OrphanError) {
+ *     console.warn(`${ e.key } has lost its parent ${ e.parentKey }`);
+ *   }
+ * }
+ * ```
+ */
+export const validateTree = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, options: TreeOptions<T> = {}): void => {
+    const parentKey = parentKeyOf(options);
+    list.keys.forEach(key => {
+        const parent = parentOf<T, K>(list.elements[encodeKey(key)], parentKey);
+        if (parent !== undefined && !hasElement(list.elements, encodeKey(parent))) {
+            throw new OrphanError(key, parent);
+        }
+    });
+    const tree = buildTree(list, options);
+    const reached: { [id: string]: boolean } = {};
+    const stack = [ ...tree.roots ];
+    while (stack.length > 0) {
+        const key = stack.pop() as K;
+        reached[encodeKey(key)] = true;
+        stack.push(...childrenIn(tree, key));
+    }
+    // The elements, which can not be reached from the roots, are in a cycle, or under one
+    const unreached = list.keys.filter(key => !hasElement(reached, encodeKey(key)));
+    if (unreached.length > 0) {
+        ancestorKeys(list, unreached[0], options);
+    }
+};
+
+/**
+ * Visits the whole tree in depth-first order, like a folder view, where
+ * the children are following their parents. The tree is validated first,
+ * see `validateTree`.
+ *
+ * ```typescript
+ * keyedList.depthFirst(folders).forEach(({ element, depth }) =>
+ *   console.log(`${ '  '.repeat(depth) }${ element.name }`)
+ * );
+ * ```
+ */
+export const depthFirst = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, options: TreeOptions<T> = {}): TreeEntry<T, K>[] => {
+    validateTree(list, options);
+    const tree = buildTree(list, options);
+    const entries: TreeEntry<T, K>[] = [];
+    const stack = tree.roots.map(id => ({ id, depth: 0 })).reverse();
+    while (stack.length > 0) {
+        const { id, depth } = stack.pop() as { id: K, depth: number };
+        entries.push({ id, element: list.elements[encodeKey(id)], depth });
+        stack.push(...childrenIn(tree, id).map(child => ({ id: child, depth: depth + 1 })).reverse());
+    }
+    return entries;
+};
+
+/**
+ * Visits the whole tree in breadth-first order, level by level. The tree
+ * is validated first, see `validateTree`.
+ *
+ * ```typescript
+ * const topLevel = keyedList.breadthFirst(comments).filter(entry => entry.depth === 0);
+ * ```
+ */
+export const breadthFirst = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, options: TreeOptions<T> = {}): TreeEntry<T, K>[] => {
+    validateTree(list, options);
+    const tree = buildTree(list, options);
+    const entries: TreeEntry<T, K>[] = tree.roots.map(id => ({ id, element: list.elements[encodeKey(id)], depth: 0 }));
+    for (let i = 0; i < entries.length; i++) {
+        const { id, depth } = entries[i];
+        childrenIn(tree, id).forEach(child => {
+            entries.push({ id: child, element: list.elements[encodeKey(child)], depth: depth + 1 });
+        });
+    }
+    return entries;
+};
+
+/**
+ * Moves an element with all its descendants under a new parent, or to
+ * the roots, when the parent is `null`. The element becomes the last
+ * child, unless an index among the new siblings is given. When the
+ * parent does not change, and there is no index, the same list is given
+ * back. Throws a `MissingKeyError`, when the element or the parent is
+ * not in the list, and a `CycleError`, when the parent is under the element.
+ *
+ * ```typescript
+ * let folders = keyedList.moveSubtree(list, 'photos', 'home');
+ * folders = keyedList.moveSubtree(folders, 'documents', 'home', { index: 0 }); // the first child
+ * ```
+ */
+export const moveSubtree = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, id: K, parentId: K | null
+      , options: MoveSubtreeOptions<T> = {}): IdKeyedList<T, K> => {
+    const encodedId = encodeKey(id);
+    if (!hasElement(list.elements, encodedId)) {
+        throw new MissingKeyError(id);
+    }
+    if (parentId !== null) {
+        if (!hasElement(list.elements, encodeKey(parentId))) {
+            throw new MissingKeyError(parentId);
+        }
+        if (keysEqual(parentId, id) || ancestorKeys(list, parentId, options).some(key => keysEqual(key, id))) {
+            throw new CycleError(id);
+        }
+    }
+    const parentKey = parentKeyOf(options);
+    const current = list.elements[encodedId];
+    const previousParent = parentOf<T, K>(current, parentKey);
+    const sameParent = parentId === null ? previousParent === undefined : previousParent !== undefined && keysEqual(previousParent, parentId);
+    if (sameParent && options.index === undefined) {
+        return list;
+    }
+    const moved = sameParent ? list : update(list, { ...(current as T), [parentKey]: parentId });
+    if (moved.compareWith) {
+        // A sorted list places the elements by itself
+        return moved;
+    }
+    const tree = buildTree(moved, options);
+    const siblings = (parentId === null ? tree.roots : childrenIn(tree, parentId)).filter(key => encodeKey(key) !== encodedId);
+    if (siblings.length === 0) {
+        return moved;
+    }
+    const keys = moved.keys.filter(key => encodeKey(key) !== encodedId);
+    const index = options.index === undefined || options.index >= siblings.length
+        ? findKeyIndex(keys, siblings[siblings.length - 1]) + 1
+        : findKeyIndex(keys, siblings[Math.max(0, options.index)]);
+    keys.splice(index, 0, id);
+    return freezeInDevMode({ ...moved, keys });
+};
+
+/**
+ * Removes an element together with all its descendants. Unless `strict`
+ * is set, a missing id is ignored.
+ *
+ * ```typescript
+ * const withoutThread = keyedList.removeSubtree(comments, 'c1'); // removes the replies as well
+ * ```
+ */
+export const removeSubtree = <T, K extends KeyValueType = string>(list: IdKeyedList<T, K>, id: K
+      , options: TreeOptions<T> & StrictOptions = {}): IdKeyedList<T, K> => {
+    if (!hasElement(list.elements, encodeKey(id))) {
+        if (options.strict) {
+            throw new MissingKeyError(id);
+        }
+        return list;
+    }
+    const removed = [ id, ...descendantKeys(list, id, options) ];
+    const removedIds: { [id: string]: boolean } = {};
+    const elements = { ...list.elements };
+    removed.forEach(key => {
+        const encoded = encodeKey(key);
+        removedIds[encoded] = true;
+        delete elements[encoded];
+    });
+    const keys = list.keys.filter(key => !hasElement(removedIds, encodeKey(key)));
+    return refreshIndexes(list, { ...list, keys, elements }, removed);
+};
+
+/**
+ * Converts the list into nested nodes, where the children of an element
+ * are in its `children` property, in the order of the list. The elements
+ * are copied, so the list is left untouched. The tree is validated first,
+ * see `validateTree`.
+ *
+ * ```typescript
+ * const nested = keyedList.toNested(comments);
+ * // [ { id: 'c1', parentId: null, text: 'First', children: [ { id: 'c2', ..., children: [] } ] }, ... ]
+ * ```
+ */
+export const toNested = <T, K extends KeyValueType = string, C extends string = 'children'>(list: IdKeyedList<T, K>
+      , options: NestedOptions<T, C> = {}): NestedNode<T, C>[] => {
+    validateTree(list, options);
+    const childrenKey = options.childrenKey || 'children';
+    const tree = buildTree(list, options);
+    const nest = (key: K): NestedNode<T, C> => ({
+        ...(list.elements[encodeKey(key)] as T),
+        [childrenKey]: childrenIn(tree, key).map(nest)
+    } as NestedNode<T, C>);
+    return tree.roots.map(nest);
+};
+
+/**
+ * Converts nested nodes into a list, which is the opposite of `toNested`.
+ * The elements are in depth-first order, the `children` property is
+ * removed from them, and their parent ids are set, with `null` for the
+ * roots. Throws a `DuplicateKeyError`, when two nodes have the same key.
+ *
+ * ```typescript
+ * const folders = keyedList.fromNested<Folder>([
+ *   { id: 'home', name: 'Home', children: [ { id: 'pictures', name: 'Pictures' } ] }
+ * ]);
+ * // pictures.parentId == 'home'
+ * ```
+ */
+export const fromNested = <T, K extends KeyValueType = SelectedKey<T>>(nodes: NestedInput<T>[]
+      , options: NestedOptions<T, string> & { keyBy?: KeySelector<T, K> } = {}): IdKeyedList<T, K> => {
+    const childrenKey = options.childrenKey || 'children';
+    const parentKey = parentKeyOf(options);
+    const keyOf = keyExtractor(options.keyBy);
+    const keys: K[] = [];
+    const elements: ElementsWithId<DeepReadonly<T>> = {};
+    const stack = nodes.map(node => ({ node, parent: null as K | null })).reverse();
+    while (stack.length > 0) {
+        const { node, parent } = stack.pop() as { node: NodeProperties<T>, parent: K | null };
+        const { [childrenKey]: children, ...rest } = node;
+        const x = { ...rest, [parentKey]: parent } as unknown as T;
+        const key = keyOf(x);
+        const id = encodeKey(key);
+        if (hasElement(elements, id)) {
+            throw new DuplicateKeyError(key);
+        }
+        keys.push(key);
+        elements[id] = x as DeepReadonly<T>;
+        const nested = (children || []) as NestedInput<T>[];
+        stack.push(...nested.map(child => ({ node: child, parent: key })).reverse());
+    }
+    const list: IdKeyedList<T, K> = { keys, elements };
+    if (options.keyBy !== undefined) {
+        list.keyBy = options.keyBy;
+    }
+    return freezeInDevMode(list);
+};
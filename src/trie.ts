@@ -0,0 +1,286 @@
+/**
+ * A persistent hash array mapped trie, which maps strings to values. A
+ * write copies only the nodes on the path of its key (at most seven of
+ * them), while the rest of the trie is shared with the previous version.
+ */
+export interface HashTrie<V> {
+    readonly size: number;
+    readonly root: TrieNode<V> | undefined;
+}
+
+export interface TrieLeaf<V> {
+    readonly kind: 'leaf';
+    readonly hash: number;
+    readonly key: string;
+    readonly value: V;
+}
+
+/** Holds the children by the next five bits of their hashes */
+export interface TrieBranch<V> {
+    readonly kind: 'branch';
+    readonly bitmap: number;
+    readonly children: ReadonlyArray<TrieNode<V>>;
+}
+
+/** Holds the leaves, which are having the same hash */
+export interface TrieCollision<V> {
+    readonly kind: 'collision';
+    readonly hash: number;
+    readonly leaves: ReadonlyArray<TrieLeaf<V>>;
+}
+
+export type TrieNode<V> = TrieLeaf<V> | TrieBranch<V> | TrieCollision<V>;
+
+const BITS = 5;
+const MASK = (1 << BITS) - 1;
+
+// FNV-1a, the multiplication by the prime is done by shifts, so it stays exact
+const hashOf = (key: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i);
+        hash += (hash << 1) + (hash << 4) + (hash << 7) + (hash << 8) + (hash << 24);
+    }
+    return hash >>> 0;
+};
+
+const bitOf = (hash: number, shift: number): number =>
+    1 << ((hash >>> shift) & MASK);
+
+const countBits = (x: number): number => {
+    x -= (x >> 1) & 0x55555555;
+    x = (x & 0x33333333) + ((x >> 2) & 0x33333333);
+    x = (x + (x >> 4)) & 0x0f0f0f0f;
+    x += x >> 8;
+    x += x >> 16;
+    return x & 0x7f;
+};
+
+// The position of the child with the bit, among the children of the branch
+const childIndex = (bitmap: number, bit: number): number =>
+    countBits(bitmap & (bit - 1));
+
+const leafOf = <V>(hash: number, key: string, value: V): TrieLeaf<V> =>
+    ({ kind: 'leaf', hash, key, value });
+
+const branchOf = <V>(bitmap: number, children: ReadonlyArray<TrieNode<V>>): TrieBranch<V> =>
+    ({ kind: 'branch', bitmap, children });
+
+const replaced = <X>(xs: ReadonlyArray<X>, index: number, x: X): X[] => {
+    const copy = xs.slice();
+    copy[index] = x;
+    return copy;
+};
+
+// Puts two nodes with different hashes under a new branch
+const merge = <V>(shift: number, left: TrieLeaf<V> | TrieCollision<V>, right: TrieLeaf<V>): TrieBranch<V> => {
+    const leftBit = bitOf(left.hash, shift);
+    const rightBit = bitOf(right.hash, shift);
+    if (leftBit === rightBit) {
+        return branchOf(leftBit, [ merge(shift + BITS, left, right) ]);
+    }
+    return branchOf(leftBit | rightBit, childIndex(leftBit, rightBit) === 0 ? [ right, left ] : [ left, right ]);
+};
+
+const findLeaf = <V>(trie: HashTrie<V>, key: string): TrieLeaf<V> | undefined => {
+    const hash = hashOf(key);
+    let node = trie.root;
+    let shift = 0;
+    while (node) {
+        switch (node.kind) {
+            case 'leaf':
+                return node.key === key ? node : undefined;
+            case 'collision':
+                return node.hash === hash
+                    ? node.leaves.filter(leaf => leaf.key === key)[0]
+                    : undefined;
+            default: {
+                const bit = bitOf(hash, shift);
+                if ((node.bitmap & bit) === 0) {
+                    return undefined;
+                }
+                node = node.children[childIndex(node.bitmap, bit)];
+                shift += BITS;
+            }
+        }
+    }
+    return undefined;
+};
+
+const setIn = <V>(node: TrieNode<V> | undefined, shift: number, leaf: TrieLeaf<V>, added: { value: boolean }): TrieNode<V> => {
+    if (!node) {
+        added.value = true;
+        return leaf;
+    }
+    switch (node.kind) {
+        case 'leaf':
+            if (node.key === leaf.key) {
+                return node.value === leaf.value ? node : leaf;
+            }
+            added.value = true;
+            return node.hash === leaf.hash
+                ? { kind: 'collision', hash: leaf.hash, leaves: [ node, leaf ] }
+                : merge(shift, node, leaf);
+        case 'collision': {
+            if (node.hash !== leaf.hash) {
+                added.value = true;
+                return merge(shift, node, leaf);
+            }
+            const index = node.leaves.map(x => x.key).indexOf(leaf.key);
+            if (index < 0) {
+                added.value = true;
+                return { ...node, leaves: [ ...node.leaves, leaf ] };
+            }
+            return node.leaves[index].value === leaf.value
+                ? node
+                : { ...node, leaves: replaced(node.leaves, index, leaf) };
+        }
+        default: {
+            const bit = bitOf(leaf.hash, shift);
+            const index = childIndex(node.bitmap, bit);
+            if ((node.bitmap & bit) === 0) {
+                added.value = true;
+                const children = node.children.slice();
+                children.splice(index, 0, leaf);
+                return branchOf(node.bitmap | bit, children);
+            }
+            const child = node.children[index];
+            const next = setIn(child, shift + BITS, leaf, added);
+            return next === child ? node : branchOf(node.bitmap, replaced(node.children, index, next));
+        }
+    }
+};
+
+// Gives back the same node, when the key is not under it
+const removeIn = <V>(node: TrieNode<V>, shift: number, hash: number, key: string): TrieNode<V> | undefined => {
+    switch (node.kind) {
+        case 'leaf':
+            return node.key === key ? undefined : node;
+        case 'collision': {
+            const leaves = node.leaves.filter(leaf => leaf.key !== key);
+            if (node.hash !== hash || leaves.length === node.leaves.length) {
+                return node;
+            }
+            return leaves.length === 1 ? leaves[0] : { ...node, leaves };
+        }
+        default: {
+            const bit = bitOf(hash, shift);
+            if ((node.bitmap & bit) === 0) {
+                return node;
+            }
+            const index = childIndex(node.bitmap, bit);
+            const child = node.children[index];
+            const next = removeIn(child, shift + BITS, hash, key);
+            if (next === child) {
+                return node;
+            }
+            const children = node.children.slice();
+            if (next) {
+                children[index] = next;
+            } else {
+                children.splice(index, 1);
+            }
+            // A leaf can be found at any depth, so a branch with a single leaf is not needed
+            if (children.length === 0) {
+                return undefined;
+            }
+            if (children.length === 1 && children[0].kind !== 'branch') {
+                return children[0];
+            }
+            return branchOf(next ? node.bitmap : node.bitmap & ~bit, children);
+        }
+    }
+};
+
+const buildIn = <V>(leaves: TrieLeaf<V>[], shift: number): TrieNode<V> => {
+    if (leaves.length === 1) {
+        return leaves[0];
+    }
+    if (leaves.every(leaf => leaf.hash === leaves[0].hash)) {
+        return { kind: 'collision', hash: leaves[0].hash, leaves };
+    }
+    const buckets: TrieLeaf<V>[][] = [];
+    leaves.forEach(leaf => {
+        const index = (leaf.hash >>> shift) & MASK;
+        (buckets[index] = buckets[index] || []).push(leaf);
+    });
+    let bitmap = 0;
+    const children: TrieNode<V>[] = [];
+    buckets.forEach((bucket, index) => {
+        bitmap |= 1 << index;
+        children.push(buildIn(bucket, shift + BITS));
+    });
+    return branchOf(bitmap, children);
+};
+
+export const EMPTY_TRIE: HashTrie<never> = { size: 0, root: undefined };
+
+/**
+ * Builds a trie from the keys and their values at once. When a key is
+ * given more than once, its last value is kept.
+ */
+export const buildTrie = <V>(keys: ReadonlyArray<string>, values: ReadonlyArray<V>): HashTrie<V> => {
+    const positions = new Map<string, number>();
+    const leaves: TrieLeaf<V>[] = [];
+    keys.forEach((key, i) => {
+        const position = positions.get(key);
+        if (position === undefined) {
+            positions.set(key, leaves.length);
+            leaves.push(leafOf(hashOf(key), key, values[i]));
+        } else {
+            leaves[position] = leafOf(leaves[position].hash, key, values[i]);
+        }
+    });
+    return leaves.length === 0 ? EMPTY_TRIE : { size: leaves.length, root: buildIn(leaves, 0) };
+};
+
+export const trieHas = <V>(trie: HashTrie<V>, key: string): boolean =>
+    findLeaf(trie, key) !== undefined;
+
+export const trieGet = <V>(trie: HashTrie<V>, key: string): V | undefined => {
+    const leaf = findLeaf(trie, key);
+    return leaf && leaf.value;
+};
+
+/**
+ * Sets the value of a key. The same trie is given back, when the key
+ * already has the same value.
+ */
+export const trieSet = <V>(trie: HashTrie<V>, key: string, value: V): HashTrie<V> => {
+    const added = { value: false };
+    const root = setIn(trie.root, 0, leafOf(hashOf(key), key, value), added);
+    return root === trie.root ? trie : { size: trie.size + (added.value ? 1 : 0), root };
+};
+
+/**
+ * Removes a key. The same trie is given back, when the key is not in it.
+ */
+export const trieRemove = <V>(trie: HashTrie<V>, key: string): HashTrie<V> => {
+    if (!trie.root) {
+        return trie;
+    }
+    const root = removeIn(trie.root, 0, hashOf(key), key);
+    return root === trie.root ? trie : { size: trie.size - 1, root };
+};
+
+/**
+ * Calls the function for every value of the trie, in the order of
+ * their hashes.
+ */
+export const trieForEach = <V>(trie: HashTrie<V>, callback: (value: V, key: string) => void): void => {
+    const visit = (node: TrieNode<V>): void => {
+        switch (node.kind) {
+            case 'leaf':
+                callback(node.value, node.key);
+                break;
+            case 'collision':
+                node.leaves.forEach(leaf => callback(leaf.value, leaf.key));
+                break;
+            default:
+                node.children.forEach(visit);
+        }
+    };
+    if (trie.root) {
+        visit(trie.root);
+    }
+};
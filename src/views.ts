@@ -0,0 +1,119 @@
+import { ElementsWithId, IdKeyedList, sort } from './KeyedList';
+import { DeepReadonly } from './freeze';
+import { refreshIndexes } from './indexes';
+import { KeyValueType, encodeKey, hasElement } from './keys';
+import { changedKeys } from './sequences';
+import { Comparator, stopSorting } from './sorted';
+import { filterList } from './transforms';
+
+export interface ViewOptions<T, K extends KeyValueType = string> {
+    /** Keeps the elements, which are satisfying it, all of them by default */
+    filter?: (x: DeepReadonly<T>, id: K) => boolean;
+    /** Sorts the view, the order of the source list is kept by default */
+    sortBy?: Comparator<T>;
+}
+
+/**
+ * Gives back the view of a source list, see `createView`.
+ */
+export type KeyedListView<T, K extends KeyValueType = string> = (source: IdKeyedList<T, K>) => IdKeyedList<T, K>;
+
+// The view is placed by itself, so it does not keep the sorting of the source
+const computeView = <T, K extends KeyValueType>(source: IdKeyedList<T, K>, options: ViewOptions<T, K>): IdKeyedList<T, K> => {
+    const { filter, sortBy } = options;
+    const filtered = stopSorting(filter ? filterList(source, (x, id) => filter(x, id)) : source);
+    return sortBy ? sort(filtered, sortBy) : filtered;
+};
+
+const updateView = <T, K extends KeyValueType>(previousSource: IdKeyedList<T, K>, view: IdKeyedList<T, K>
+      , source: IdKeyedList<T, K>, options: ViewOptions<T, K>): IdKeyedList<T, K> => {
+    const touched = changedKeys(previousSource, source);
+    if (touched.length === 0) {
+        return view;
+    }
+    const { filter, sortBy } = options;
+    const touchedIds: { [id: string]: boolean } = {};
+    touched.forEach(key => {
+        touchedIds[encodeKey(key)] = true;
+    });
+    // The untouched elements are keeping their relative order, so the new
+    // ones can be placed among them with a binary search
+    const keys = view.keys.filter(key => !hasElement(touchedIds, encodeKey(key)));
+    const elements: ElementsWithId<DeepReadonly<T>> = {};
+    keys.forEach(key => {
+        const id = encodeKey(key);
+        elements[id] = view.elements[id];
+    });
+    const positions: { [id: string]: number } = {};
+    source.keys.forEach((key, i) => {
+        positions[encodeKey(key)] = i;
+    });
+    // The equal elements are in the order of the source, like by a full sort
+    const compare = (left: K, right: K): number => {
+        const leftId = encodeKey(left);
+        const rightId = encodeKey(right);
+        return (sortBy ? sortBy(source.elements[leftId] as T, source.elements[rightId] as T) : 0)
+            || positions[leftId] - positions[rightId];
+    };
+    touched.forEach(key => {
+        const id = encodeKey(key);
+        if (!hasElement(source.elements, id) || (filter && !filter(source.elements[id], key))) {
+            return;
+        }
+        let low = 0;
+        let high = keys.length;
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            if (compare(keys[middle], key) < 0) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        keys.splice(low, 0, key);
+        elements[id] = source.elements[id];
+    });
+    const unchanged = keys.length === view.keys.length
+        && keys.every((key, i) => encodeKey(key) === encodeKey(view.keys[i]) && elements[encodeKey(key)] === view.elements[encodeKey(key)]);
+    return unchanged
+        ? view
+        : refreshIndexes(view, { ...view, keys, elements }, touched);
+};
+
+/**
+ * Creates a memoized view, which filters and sorts a source list. The
+ * view is computed fully for the first source only. When a later source
+ * is made from the previous one (by `append`, `update`, `removeById` or
+ * any other function), only the changed elements are filtered and placed
+ * again, and the previous view is given back, when nothing visible has
+ * changed. The filter and the comparator are fixed, so a view should be
+ * created again, when they change, like for a new search text.
+ *
+ * ```typescript
+ * const newestMatches = keyedList.createView<Post>({
+ *   filter: post => post.title.includes(searchText),
+ *   sortBy: (left, right) => right.createdAt - left.createdAt
+ * });
+ *
+ * const visible = newestMatches(list);
+ * const again = newestMatches(keyedList.update(list, { id: 'p1', votes: 10 })); // only 'p1' is checked
+ *
+ * // in React
+ * const view = useMemo(() => keyedList.createView<Post>({ filter: matches(searchText) }), [ searchText ]);
+ * const posts = view(list);
+ * ```
+ */
+export const createView = <T, K extends KeyValueType = string>(options: ViewOptions<T, K>): KeyedListView<T, K> => {
+    let lastSource: IdKeyedList<T, K> | undefined;
+    let lastView: IdKeyedList<T, K> | undefined;
+
+    return source => {
+        if (source !== lastSource) {
+            lastView = lastSource && lastView
+                ? updateView(lastSource, lastView, source, options)
+                : computeView(source, options);
+            lastSource = source;
+        }
+        return lastView as IdKeyedList<T, K>;
+    };
+};
@@ -0,0 +1,262 @@
+import {
+    IdKeyedList, InsertOptions, StrictOptions,
+    append, fromArray, getById, getByIndex, getCount, getFirst, getIds, getLast,
+    insert, remove, removeById, sort, toArray, update
+} from './KeyedList';
+import { KeyedListDraft, withMutations } from './batch';
+import { KeyedListPatch, applyPatch } from './diff';
+import { DeepReadonly } from './freeze';
+import { IndexDefinition, addIndex, lookup, removeIndex } from './indexes';
+import { KeyExtractor, KeyName, KeySelector, KeyValueType, SelectedKey, encodeKey } from './keys';
+import { slice } from './pagination';
+import { insertAfter, insertAt, insertBefore, move, reorder, swap } from './positional';
+import { every, find, findIndex, forEach, has, indexOfId, reduce, some } from './queries';
+import { ReconcileOptions, reconcile } from './reconcile';
+import { Comparator, keepSorted, range } from './sorted';
+import { filterList, mapValues, reject } from './transforms';
+
+const iterate = <K, R>(keys: ReadonlyArray<K>, project: (key: K) => R): IterableIterator<R> => {
+    let i = 0;
+    const iterator: IterableIterator<R> = {
+        next: () => i < keys.length
+            ? { done: false, value: project(keys[i++]) }
+            : { done: true, value: undefined },
+        [Symbol.iterator]: () => iterator
+    };
+    return iterator;
+};
+
+/**
+ * An immutable, chainable wrapper around a plain `IdKeyedList`. Every
+ * method gives back a new wrapper, or the same one, when nothing has
+ * changed. The wrapped list can be taken out with `toList`, so the plain
+ * shape can still be kept in a Redux store.
+ *
+ * ```typescript
+ * const posts = KeyedList.fromArray(fetchedPosts)
+ *   .append(newPost)
+ *   .filter(post => post.votes > 0)
+ *   .sort((left, right) => right.votes - left.votes);
+ *
+ * for (const post of posts) {
+ *   console.log(post.title);
+ * }
+ * const state = { posts: posts.toList() };
+ * ```
+ */
+export class KeyedList<T, K extends KeyValueType = string> implements Iterable<DeepReadonly<T>> {
+    static fromArray<T extends { id: KeyValueType }, K extends KeyValueType = SelectedKey<T>>(array?: T[]): KeyedList<T, K>;
+    static fromArray<T, N extends KeyName<T>>(array: T[], keyBy: N): KeyedList<T, SelectedKey<T, N>>;
+    static fromArray<T, K extends KeyValueType>(array: T[], keyBy: KeyExtractor<T, K>): KeyedList<T, K>;
+    static fromArray<T, K extends KeyValueType>(array: T[], keyBy: KeySelector<T, K> | undefined): KeyedList<T, K>;
+    static fromArray<T, K extends KeyValueType>(array: T[] = [], keyBy?: KeySelector<T, K>): KeyedList<T, K> {
+        return new KeyedList(fromArray(array, keyBy));
+    }
+
+    /** Wraps a plain list, without copying it */
+    static from<T, K extends KeyValueType = string>(list: IdKeyedList<T, K>): KeyedList<T, K> {
+        return new KeyedList(list);
+    }
+
+    constructor(private readonly list: IdKeyedList<T, K> = { keys: [], elements: {} }) {
+    }
+
+    private wrap(list: IdKeyedList<T, K>): KeyedList<T, K> {
+        return list === this.list ? this : new KeyedList(list);
+    }
+
+    /** The number of the elements */
+    get size(): number {
+        return getCount(this.list);
+    }
+
+    /** Gives back the wrapped plain list */
+    toList(): IdKeyedList<T, K> {
+        return this.list;
+    }
+
+    toArray(): T[] {
+        return toArray(this.list);
+    }
+
+    /** The plain `{ keys, elements }` shape, used by `JSON.stringify` */
+    toJSON(): IdKeyedList<T, K> {
+        return { keys: this.list.keys, elements: this.list.elements };
+    }
+
+    has(id: K): boolean {
+        return has(this.list, id);
+    }
+
+    indexOfId(id: K): number {
+        return indexOfId(this.list, id);
+    }
+
+    getById(id: K): DeepReadonly<T> | undefined {
+        return getById(this.list, id);
+    }
+
+    getIds(): K[] {
+        return getIds(this.list);
+    }
+
+    getByIndex(index: number): DeepReadonly<T> | undefined {
+        return getByIndex(this.list, index);
+    }
+
+    getFirst(): DeepReadonly<T> | undefined {
+        return getFirst(this.list);
+    }
+
+    getLast(): DeepReadonly<T> | undefined {
+        return getLast(this.list);
+    }
+
+    lookup(indexName: string, value: KeyValueType): DeepReadonly<T>[] {
+        return lookup(this.list, indexName, value);
+    }
+
+    append(x: T, options?: InsertOptions): KeyedList<T, K> {
+        return this.wrap(append(this.list, x, options));
+    }
+
+    insert(x: T, options?: InsertOptions): KeyedList<T, K> {
+        return this.wrap(insert(this.list, x, options));
+    }
+
+    insertAt(index: number, x: T, options?: InsertOptions): KeyedList<T, K> {
+        return this.wrap(insertAt(this.list, index, x, options));
+    }
+
+    insertAfter(afterId: K, x: T, options?: InsertOptions): KeyedList<T, K> {
+        return this.wrap(insertAfter(this.list, afterId, x, options));
+    }
+
+    insertBefore(beforeId: K, x: T, options?: InsertOptions): KeyedList<T, K> {
+        return this.wrap(insertBefore(this.list, beforeId, x, options));
+    }
+
+    update(elemProps: Partial<T>, options?: StrictOptions): KeyedList<T, K> {
+        return this.wrap(update(this.list, elemProps, options));
+    }
+
+    removeById(id: K, options?: StrictOptions): KeyedList<T, K> {
+        return this.wrap(removeById(this.list, id, options));
+    }
+
+    remove(x: T, options?: StrictOptions): KeyedList<T, K> {
+        return this.wrap(remove(this.list, x, options));
+    }
+
+    move(id: K, toIndex: number): KeyedList<T, K> {
+        return this.wrap(move(this.list, id, toIndex));
+    }
+
+    swap(leftId: K, rightId: K): KeyedList<T, K> {
+        return this.wrap(swap(this.list, leftId, rightId));
+    }
+
+    reorder(ids: K[]): KeyedList<T, K> {
+        return this.wrap(reorder(this.list, ids));
+    }
+
+    sort(compareWith: (lval: T, rval: T) => number): KeyedList<T, K> {
+        return this.wrap(sort(this.list, compareWith));
+    }
+
+    keepSorted(compareWith: Comparator<T>): KeyedList<T, K> {
+        return this.wrap(keepSorted(this.list, compareWith));
+    }
+
+    range(from?: Partial<T>, to?: Partial<T>): KeyedList<T, K> {
+        return this.wrap(range(this.list, from, to));
+    }
+
+    filter(predicate: (x: DeepReadonly<T>, id: K, index: number) => boolean): KeyedList<T, K> {
+        return this.wrap(filterList(this.list, predicate));
+    }
+
+    reject(predicate: (x: DeepReadonly<T>, id: K, index: number) => boolean): KeyedList<T, K> {
+        return this.wrap(reject(this.list, predicate));
+    }
+
+    /** Maps the elements to new values, keeping their ids, see `mapValues` */
+    mapValues<U>(mapper: (x: DeepReadonly<T>, id: K, index: number) => U): KeyedList<U, K>;
+    mapValues<U, N extends string>(mapper: (x: DeepReadonly<T>, id: K, index: number) => U, keyBy: N): KeyedList<U, K>;
+    mapValues<U>(mapper: (x: DeepReadonly<T>, id: K, index: number) => U, keyBy: KeyExtractor<U, K>): KeyedList<U, K>;
+    mapValues<U>(mapper: (x: DeepReadonly<T>, id: K, index: number) => U, keyBy: KeySelector<U, K> | undefined): KeyedList<U, K>;
+    mapValues<U>(mapper: (x: DeepReadonly<T>, id: K, index: number) => U, keyBy?: KeySelector<U, K>): KeyedList<U, K> {
+        return new KeyedList(mapValues(this.list, mapper, keyBy));
+    }
+
+    map<U>(mapper: (x: DeepReadonly<T>, id: K, index: number) => U): U[] {
+        return this.list.keys.map((key, i) => mapper(this.list.elements[encodeKey(key)], key, i));
+    }
+
+    reduce<R>(reducer: (accumulator: R, x: DeepReadonly<T>, id: K, index: number) => R, initialValue: R): R {
+        return reduce(this.list, reducer, initialValue);
+    }
+
+    find(predicate: (x: DeepReadonly<T>, id: K, index: number) => boolean): DeepReadonly<T> | undefined {
+        return find(this.list, predicate);
+    }
+
+    findIndex(predicate: (x: DeepReadonly<T>, id: K, index: number) => boolean): number {
+        return findIndex(this.list, predicate);
+    }
+
+    some(predicate: (x: DeepReadonly<T>, id: K, index: number) => boolean): boolean {
+        return some(this.list, predicate);
+    }
+
+    every(predicate: (x: DeepReadonly<T>, id: K, index: number) => boolean): boolean {
+        return every(this.list, predicate);
+    }
+
+    forEach(callback: (x: DeepReadonly<T>, id: K, index: number) => void): void {
+        forEach(this.list, callback);
+    }
+
+    slice(start?: number, end?: number): KeyedList<T, K> {
+        return this.wrap(slice(this.list, start, end));
+    }
+
+    withMutations(mutate: (draft: KeyedListDraft<T, K>) => void): KeyedList<T, K> {
+        return this.wrap(withMutations(this.list, mutate));
+    }
+
+    reconcile(incoming: T[], options?: ReconcileOptions<T>): KeyedList<T, K> {
+        return this.wrap(reconcile(this.list, incoming, options).list);
+    }
+
+    applyPatch(patch: KeyedListPatch<T, K>): KeyedList<T, K> {
+        return this.wrap(applyPatch(this.list, patch));
+    }
+
+    addIndex(name: string, definition: IndexDefinition<T>): KeyedList<T, K> {
+        return this.wrap(addIndex(this.list, name, definition));
+    }
+
+    removeIndex(name: string): KeyedList<T, K> {
+        return this.wrap(removeIndex(this.list, name));
+    }
+
+    /** Iterates the ids, in the order of the list */
+    keys(): IterableIterator<K> {
+        return iterate(this.list.keys, key => key);
+    }
+
+    /** Iterates the elements, in the order of the list */
+    values(): IterableIterator<DeepReadonly<T>> {
+        return iterate(this.list.keys, key => this.list.elements[encodeKey(key)]);
+    }
+
+    /** Iterates the `[id, element]` pairs, in the order of the list */
+    entries(): IterableIterator<[K, DeepReadonly<T>]> {
+        return iterate(this.list.keys, (key): [K, DeepReadonly<T>] => [ key, this.list.elements[encodeKey(key)] ]);
+    }
+
+    [Symbol.iterator](): IterableIterator<DeepReadonly<T>> {
+        return this.values();
+    }
+}